@@ -0,0 +1,364 @@
+import {
+  AnthropicContentBlock,
+  AnthropicResponse,
+  AzureContentBlock,
+  AzureResponsesRequestBody,
+  azureUsageToAnthropic,
+  decodeToolInput,
+  normalizeToString,
+  rejectUnfinishedToolInput,
+  toolCallToAnthropic,
+  ToolInputDecoder,
+} from './converters';
+import { contentFilterNotice, filteredCategories } from './refusal';
+
+export type ChatContentPart =
+  | {
+      type: 'text';
+      text: string;
+    }
+  | {
+      type: 'image_url';
+      image_url: { url: string };
+    }
+  | {
+      type: 'file';
+      file: { filename?: string; file_data: string };
+    };
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export type ChatMessage =
+  | {
+      role: 'system' | 'user';
+      content: string | ChatContentPart[];
+    }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: ChatToolCall[];
+    }
+  | {
+      role: 'tool';
+      tool_call_id: string;
+      content: string;
+    };
+
+export interface ChatToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+    strict?: boolean;
+  };
+}
+
+export type ChatToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | {
+      type: 'function';
+      function: { name: string };
+    };
+
+export interface ChatCompletionsRequestBody {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  tools?: ChatToolDefinition[];
+  tool_choice?: ChatToolChoice;
+  parallel_tool_calls?: boolean;
+  user?: string;
+  reasoning_effort?: string;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  prompt_cache_key?: string;
+}
+
+export interface ChatCompletionsUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
+export interface ChatCompletionsResponseBody {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    message?: {
+      role?: string;
+      content?: string | null;
+      refusal?: string | null;
+      tool_calls?: Array<Partial<ChatToolCall>>;
+    };
+    finish_reason?: string | null;
+    content_filter_results?: unknown;
+  }>;
+  usage?: ChatCompletionsUsage;
+}
+
+function chatContentFromAzure(content: AzureContentBlock[]): string | ChatContentPart[] {
+  const parts: ChatContentPart[] = [];
+  for (const block of content) {
+    if (block.type === 'input_image') {
+      if ('image_url' in block && block.image_url) {
+        parts.push({ type: 'image_url', image_url: { url: block.image_url } });
+      }
+    } else if (block.type === 'input_file') {
+      if (block.file_data) {
+        parts.push({ type: 'file', file: { filename: block.filename, file_data: block.file_data } });
+      } else if (block.file_url) {
+        // Chat Completions cannot fetch files by URL.
+        parts.push({ type: 'text', text: `Document: ${block.file_url}` });
+      }
+    } else if (block.type !== 'tool_calls' && 'text' in block) {
+      parts.push({ type: 'text', text: block.text });
+    }
+  }
+
+  if (parts.every((part) => part.type === 'text')) {
+    return parts.map((part) => (part.type === 'text' ? part.text : '')).join('\n\n');
+  }
+  return parts;
+}
+
+function chatTextFromAzure(content: AzureContentBlock[]): string {
+  const converted = chatContentFromAzure(content);
+  if (typeof converted === 'string') {
+    return converted;
+  }
+  return converted.map((part) => (part.type === 'text' ? part.text : '')).join('\n\n');
+}
+
+/**
+ * Chat Completions tool messages only carry text, so images and files returned by a tool are
+ * split off and sent in a user message once the run of tool results ends.
+ */
+function splitToolOutput(output: string | AzureContentBlock[]): {
+  text: string;
+  media: ChatContentPart[];
+} {
+  if (typeof output === 'string') {
+    return { text: output, media: [] };
+  }
+  const converted = chatContentFromAzure(output);
+  if (typeof converted === 'string') {
+    return { text: converted, media: [] };
+  }
+  const text = converted.flatMap((part) => (part.type === 'text' ? [part.text] : [])).join('\n\n');
+  const media = converted.filter((part) => part.type !== 'text');
+  const note =
+    media.length === 1
+      ? '(1 attachment follows in the next message)'
+      : `(${media.length} attachments follow in the next message)`;
+  return { text: text ? `${text}\n\n${note}` : note, media };
+}
+
+/**
+ * Rewrites a Responses API request body as a Chat Completions body. Building on the Responses
+ * conversion keeps a single Anthropic parsing path for both wire APIs.
+ */
+export function responsesToChatRequest(request: AzureResponsesRequestBody): ChatCompletionsRequestBody {
+  const messages: ChatMessage[] = [];
+  let toolMedia: ChatContentPart[] = [];
+  const flushToolMedia = () => {
+    if (toolMedia.length > 0) {
+      messages.push({ role: 'user', content: toolMedia });
+      toolMedia = [];
+    }
+  };
+
+  for (const item of request.input) {
+    if (item.type !== 'function_call_output') {
+      flushToolMedia();
+    }
+    switch (item.type) {
+      case 'message':
+        if (item.role === 'assistant') {
+          messages.push({ role: 'assistant', content: chatTextFromAzure(item.content) });
+        } else if (item.role === 'system') {
+          messages.push({ role: 'system', content: chatTextFromAzure(item.content) });
+        } else {
+          messages.push({ role: 'user', content: chatContentFromAzure(item.content) });
+        }
+        break;
+      case 'function_call': {
+        const toolCall: ChatToolCall = {
+          id: item.call_id ?? item.name,
+          type: 'function',
+          function: { name: item.name, arguments: item.arguments },
+        };
+        const previous = messages[messages.length - 1];
+        if (previous?.role === 'assistant') {
+          previous.tool_calls = [...(previous.tool_calls ?? []), toolCall];
+        } else {
+          messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+        }
+        break;
+      }
+      case 'function_call_output': {
+        const { text, media } = splitToolOutput(item.output);
+        messages.push({ role: 'tool', tool_call_id: item.call_id, content: text });
+        toolMedia.push(...media);
+        break;
+      }
+      case 'reasoning':
+        // Chat Completions has no way to replay reasoning items.
+        break;
+      default:
+        break;
+    }
+  }
+  flushToolMedia();
+
+  const chatRequest: ChatCompletionsRequestBody = {
+    model: request.model,
+    messages,
+  };
+
+  if (request.temperature !== undefined) {
+    chatRequest.temperature = request.temperature;
+  }
+  if (request.top_p !== undefined) {
+    chatRequest.top_p = request.top_p;
+  }
+  if (request.reasoning?.effort) {
+    chatRequest.reasoning_effort = request.reasoning.effort;
+  }
+  if (request.max_output_tokens !== undefined) {
+    // Reasoning deployments reject `max_tokens`, while older API versions only know `max_tokens`.
+    if (chatRequest.reasoning_effort) {
+      chatRequest.max_completion_tokens = request.max_output_tokens;
+    } else {
+      chatRequest.max_tokens = request.max_output_tokens;
+    }
+  }
+  if (request.tools) {
+    chatRequest.tools = request.tools
+      .filter((tool) => tool.type === 'function' && tool.name)
+      .map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name as string,
+          description: tool.description,
+          parameters: tool.parameters,
+          ...(tool.strict ? { strict: true } : {}),
+        },
+      }));
+  }
+  if (request.tool_choice) {
+    const toolChoice = request.tool_choice;
+    if (typeof toolChoice === 'string') {
+      chatRequest.tool_choice = toolChoice;
+    } else if (toolChoice.type === 'function' && toolChoice.name) {
+      chatRequest.tool_choice = { type: 'function', function: { name: toolChoice.name } };
+    } else if (toolChoice.type !== 'function') {
+      chatRequest.tool_choice = toolChoice.type;
+    }
+  }
+  if (request.parallel_tool_calls !== undefined && chatRequest.tools?.length) {
+    // Chat Completions rejects parallel_tool_calls on a request without tools.
+    chatRequest.parallel_tool_calls = request.parallel_tool_calls;
+  }
+  if (request.user) {
+    chatRequest.user = request.user;
+  }
+  if (request.prompt_cache_key) {
+    chatRequest.prompt_cache_key = request.prompt_cache_key;
+  }
+  if (request.stream) {
+    chatRequest.stream = true;
+    chatRequest.stream_options = { include_usage: true };
+  }
+
+  return chatRequest;
+}
+
+export function mapChatFinishReason(
+  finishReason: string | null | undefined,
+  hasToolCall: boolean,
+): string {
+  switch (finishReason) {
+    case 'tool_calls':
+    case 'function_call':
+      // Calls with unusable arguments are replaced by text, leaving nothing to run.
+      return hasToolCall ? 'tool_use' : 'end_turn';
+    case 'length':
+      return 'max_tokens';
+    case 'content_filter':
+      return 'refusal';
+    default:
+      return hasToolCall ? 'tool_use' : 'end_turn';
+  }
+}
+
+export function chatToAnthropicResponse(
+  data: ChatCompletionsResponseBody,
+  requestedModel: string,
+  decodeInput: ToolInputDecoder = decodeToolInput,
+): AnthropicResponse {
+  const choice = data.choices?.[0];
+  const message = choice?.message;
+  const contentBlocks: AnthropicContentBlock[] = [];
+
+  const text = normalizeToString(message?.content ?? message?.refusal);
+  if (text.length > 0) {
+    contentBlocks.push({ type: 'text', text });
+  }
+  const refused = !message?.content && Boolean(message?.refusal);
+  if (choice?.finish_reason === 'content_filter') {
+    contentBlocks.push({
+      type: 'text',
+      text: contentFilterNotice('response', filteredCategories(choice.content_filter_results)),
+    });
+  }
+
+  const toolCalls = message?.tool_calls ?? [];
+  // Calls are generated one after another, so only the last can have been cut off.
+  const stoppedEarly =
+    choice?.finish_reason === 'length' || choice?.finish_reason === 'content_filter';
+  toolCalls.forEach((call, index) => {
+    const callName = call.function?.name ?? 'tool';
+    const unfinished = stoppedEarly && index === toolCalls.length - 1;
+    contentBlocks.push(
+      toolCallToAnthropic(
+        call.id ?? `tool_${contentBlocks.length}`,
+        callName,
+        call.function?.arguments,
+        unfinished ? rejectUnfinishedToolInput : decodeInput,
+      ),
+    );
+  });
+
+  const hasToolCall = contentBlocks.some((block) => block.type === 'tool_use');
+  if (contentBlocks.length === 0) {
+    contentBlocks.push({ type: 'text', text: '' });
+  }
+
+  return {
+    id: data.id ?? 'proxy-response',
+    type: 'message',
+    role: 'assistant',
+    model: requestedModel,
+    content: contentBlocks,
+    stop_reason: refused ? 'refusal' : mapChatFinishReason(choice?.finish_reason, hasToolCall),
+    stop_sequence: null,
+    usage: azureUsageToAnthropic(data.usage),
+  };
+}
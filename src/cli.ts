@@ -1,6 +1,8 @@
 #!/usr/bin/env node
 import type { Server } from 'http';
+import { loadUsageConfig } from './config';
 import { startServer } from './server';
+import { formatUsageTable, readUsageRecords, summarizeUsage, UsageGrouping } from './usage';
 import packageJson from '../package.json';
 
 interface CliOptions {
@@ -13,7 +15,8 @@ function printHelp(): void {
   console.log(
     `${name} v${packageJson.version}\n\n` +
       'Usage:\n' +
-      '  openai-claude [options]\n\n' +
+      '  openai-claude [options]\n' +
+      '  openai-claude usage [--by day|month|model|deployment|client] [--since YYYY-MM-DD] [--json]\n\n' +
       'Options:\n' +
       '  -p, --port <number>   Port to listen on (defaults to 9999 or $PORT)\n' +
       '  -H, --host <host>     Host interface (defaults to 0.0.0.0 or $HOST)\n' +
@@ -79,7 +82,63 @@ function parseArgs(argv: string[]): CliOptions | 'help' | 'version' | 'error' {
   return options;
 }
 
+const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'month', 'model', 'deployment', 'client'];
+
+function runUsageCommand(argv: string[]): number {
+  let groupBy: UsageGrouping = 'day';
+  let since: string | undefined;
+  let json = false;
+  for (let i = 0; i < argv.length; i += 1) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+    if (flag === '--json') {
+      json = true;
+      continue;
+    }
+    if (flag !== '--by' && flag !== '--since') {
+      console.error(`Unknown argument: ${argv[i]}`);
+      return 1;
+    }
+    const value = inlineValue ?? argv[(i += 1)];
+    if (!value) {
+      console.error(`Missing value for ${flag} option.`);
+      return 1;
+    }
+    if (flag === '--by') {
+      if (!USAGE_GROUPINGS.includes(value as UsageGrouping)) {
+        console.error(`Invalid grouping: ${value} (expected ${USAGE_GROUPINGS.join(', ')})`);
+        return 1;
+      }
+      groupBy = value as UsageGrouping;
+    } else {
+      if (Number.isNaN(Date.parse(value))) {
+        console.error(`Invalid date: ${value}`);
+        return 1;
+      }
+      since = value;
+    }
+  }
+
+  try {
+    const { log } = loadUsageConfig();
+    if (!log) {
+      console.error('Usage recording is disabled (usage.log = false).');
+      return 1;
+    }
+    const rows = summarizeUsage(readUsageRecords(log), groupBy, { since });
+    console.log(json ? JSON.stringify(rows, null, 2) : formatUsageTable(rows, groupBy));
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to read usage: ${message}`);
+    return 1;
+  }
+}
+
 function main(): void {
+  if (process.argv[2] === 'usage') {
+    process.exitCode = runUsageCommand(process.argv.slice(3));
+    return;
+  }
   const parsed = parseArgs(process.argv.slice(2));
   if (parsed === 'help') {
     printHelp();
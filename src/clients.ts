@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import toml from 'toml';
+import { AnthropicApiError } from './errors';
+import { modelMatches } from './routing';
+import type { UsageRecord } from './usage';
+
+/**
+ * A client allowed to use the proxy, identified by its own API key.
+ */
+export interface ClientKey {
+  label: string;
+  keyDigest: Buffer;
+  /**
+   * Model name globs the client may request; every model when unset.
+   */
+  models?: string[];
+  requestsPerMinute?: number;
+  tokensPerDay?: number;
+  enabled: boolean;
+}
+
+function digestKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
+
+function optionalLimit(entry: Record<string, unknown>, field: string, path: string): number | undefined {
+  const value = entry[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`${path}.${field} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Parses the `keys` array of a client keys file.
+ */
+export function parseClientKeys(raw: unknown): ClientKey[] {
+  const entries = Array.isArray(raw) ? raw : (raw as { keys?: unknown } | undefined)?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error('the keys file must define a keys array ([[keys]])');
+  }
+  const labels = new Set<string>();
+  return entries.map((value, index) => {
+    const path = `keys[${index}]`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`${path} must be a table`);
+    }
+    const entry = value as Record<string, unknown>;
+    const { label, key, models, enabled = true } = entry;
+    if (typeof label !== 'string' || label.length === 0) {
+      throw new Error(`${path}.label must be a non-empty string`);
+    }
+    if (labels.has(label)) {
+      throw new Error(`${path}.label '${label}' is used by another key`);
+    }
+    labels.add(label);
+    if (typeof key !== 'string' || key.length === 0) {
+      throw new Error(`${path}.key must be a non-empty string`);
+    }
+    if (
+      models !== undefined &&
+      (!Array.isArray(models) || models.some((model) => typeof model !== 'string'))
+    ) {
+      throw new Error(`${path}.models must be an array of strings`);
+    }
+    if (typeof enabled !== 'boolean') {
+      throw new Error(`${path}.enabled must be a boolean`);
+    }
+    return {
+      label,
+      keyDigest: digestKey(key),
+      models: models as string[] | undefined,
+      requestsPerMinute: optionalLimit(entry, 'requests_per_minute', path),
+      tokensPerDay: optionalLimit(entry, 'tokens_per_day', path),
+      enabled,
+    };
+  });
+}
+
+function readClientKeysFile(filePath: string): ClientKey[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const raw = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(text) : toml.parse(text);
+  return parseClientKeys(raw);
+}
+
+export interface ClientRegistry {
+  /**
+   * The client owning `token`, compared in constant time against every key.
+   */
+  authenticate(token: string | undefined): ClientKey | undefined;
+  close(): void;
+}
+
+function findClient(clients: ClientKey[], token: string): ClientKey | undefined {
+  const digest = digestKey(token);
+  let match: ClientKey | undefined;
+  // No early exit, so timing does not reveal which key (if any) matched.
+  for (const client of clients) {
+    if (crypto.timingSafeEqual(digest, client.keyDigest) && !match) {
+      match = client;
+    }
+  }
+  return match;
+}
+
+/**
+ * A registry holding a single shared key, for the `ANTHROPIC_AUTH_TOKEN` setup.
+ */
+export function createStaticClientRegistry(label: string, key: string): ClientRegistry {
+  const clients: ClientKey[] = [{ label, keyDigest: digestKey(key), enabled: true }];
+  return {
+    authenticate: (token) => (token === undefined ? undefined : findClient(clients, token)),
+    close() {},
+  };
+}
+
+/**
+ * Loads a TOML (or `.json`) client keys file and reloads it whenever it changes. A file that
+ * fails to load at startup is fatal; a bad edit later keeps the previous keys in effect.
+ */
+export function watchClientKeysFile(filePath: string): ClientRegistry {
+  let clients = readClientKeysFile(filePath);
+
+  const reload = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+    try {
+      clients = readClientKeysFile(filePath);
+      console.log(`Reloaded ${clients.length} client key(s) from ${filePath}`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Keeping the previous client keys; ${filePath} is invalid: ${message}`);
+    }
+  };
+  fs.watchFile(filePath, { interval: 1000, persistent: false }, reload);
+
+  return {
+    authenticate: (token) => (token === undefined ? undefined : findClient(clients, token)),
+    close() {
+      fs.unwatchFile(filePath, reload);
+    },
+  };
+}
+
+export function isModelAllowed(client: ClientKey, models: Array<string | undefined>): boolean {
+  if (!client.models) {
+    return true;
+  }
+  return client.models.some((pattern) =>
+    models.some((model) => model !== undefined && modelMatches(pattern, model)),
+  );
+}
+
+export interface ClientQuotas {
+  /**
+   * Counts a request against the client's limits, or throws a 429 when one is used up.
+   */
+  admit(client: ClientKey): void;
+  recordTokens(client: ClientKey, tokens: number): void;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+/**
+ * Per-client request and token counters, kept by label so they survive key file reloads. Today's
+ * token counts start from the usage log's `history`, so a restart does not reset them.
+ */
+export function createClientQuotas(history: UsageRecord[] = []): ClientQuotas {
+  const recentRequests = new Map<string, number[]>();
+  const dailyTokens = new Map<string, { day: string; tokens: number }>();
+
+  const today = utcDay(Date.now());
+  for (const record of history) {
+    if (!record.client || record.timestamp.slice(0, 10) !== today) {
+      continue;
+    }
+    const tokens = record.input_tokens + record.cached_tokens + record.output_tokens;
+    const total = (dailyTokens.get(record.client)?.tokens ?? 0) + tokens;
+    dailyTokens.set(record.client, { day: today, tokens: total });
+  }
+
+  const tokensToday = (label: string, now: number) => {
+    const usage = dailyTokens.get(label);
+    return usage && usage.day === utcDay(now) ? usage.tokens : 0;
+  };
+
+  return {
+    admit(client) {
+      const now = Date.now();
+      if (client.tokensPerDay !== undefined && tokensToday(client.label, now) >= client.tokensPerDay) {
+        throw new AnthropicApiError(
+          429,
+          'rate_limit_error',
+          `API key '${client.label}' has used its ${client.tokensPerDay} tokens for today`,
+          { 'retry-after': String(secondsUntilUtcMidnight(now)) },
+        );
+      }
+      if (client.requestsPerMinute === undefined) {
+        return;
+      }
+      const window = (recentRequests.get(client.label) ?? []).filter(
+        (timestamp) => timestamp > now - 60_000,
+      );
+      if (window.length >= client.requestsPerMinute) {
+        recentRequests.set(client.label, window);
+        throw new AnthropicApiError(
+          429,
+          'rate_limit_error',
+          `API key '${client.label}' is limited to ${client.requestsPerMinute} requests per minute`,
+          { 'retry-after': String(Math.max(1, Math.ceil((window[0] + 60_000 - now) / 1000))) },
+        );
+      }
+      window.push(now);
+      recentRequests.set(client.label, window);
+    },
+
+    recordTokens(client, tokens) {
+      const now = Date.now();
+      const total = tokensToday(client.label, now) + tokens;
+      dailyTokens.set(client.label, { day: utcDay(now), tokens: total });
+    },
+  };
+}
@@ -2,72 +2,351 @@ import fs from 'fs';
 import os from 'os';
 import path from 'path';
 import toml from 'toml';
+import { ContextWindows, parseContextWindows } from './context';
+import { DEFAULT_THINKING_BUDGET_EFFORT, ThinkingBudgetEffort } from './converters';
+import { parseRateLimitConfig, RateLimitConfig } from './ratelimit';
+import { parseRedactionConfig, RedactionConfig } from './redaction';
+import { parseRetryPolicy, RetryPolicy } from './retry';
+import { ModelRoute, parseModelRoutes } from './routing';
+import { DEFAULT_UPSTREAM_TIMEOUTS, parseUpstreamTimeouts, UpstreamTimeouts } from './timeouts';
+import { parseUsageConfig, UsageConfig } from './usage';
 
-export interface AzureProviderConfig {
+export type WireApi = 'responses' | 'chat';
+
+/**
+ * How the provider expects the API key: Azure's `api-key` header, OpenAI-style
+ * `Authorization: Bearer`, or nothing at all (local OpenAI-compatible servers).
+ */
+export type ProviderAuthStyle = 'api-key' | 'bearer' | 'none';
+
+export interface ProviderConfig {
+  id: string;
   name: string;
   baseUrl: string;
-  envKey: string;
-  wireApi: string;
+  envKey?: string;
+  wireApi: WireApi;
   apiVersion?: string;
-  apiKey: string;
+  apiKey?: string;
+  authStyle: ProviderAuthStyle;
+  httpHeaders: Record<string, string>;
+  queryParams: Record<string, string>;
 }
 
 export interface CodexConfig {
-  model: string;
+  /**
+   * Deployment for requests that name no model and match no route.
+   */
+  model?: string;
   modelProvider: string;
-  azure: AzureProviderConfig;
+  provider: ProviderConfig;
+  providers: Record<string, ProviderConfig>;
+  routes: ModelRoute[];
+  retryPolicy: RetryPolicy;
+  timeouts: UpstreamTimeouts;
   reasoningEffort?: string;
+  reasoningSummary?: string;
+  thinkingBudgetEffort: ThinkingBudgetEffort;
+  strictTools: boolean;
+  contextWindows: ContextWindows;
+  truncateToolResults: boolean;
+  statefulResponses: boolean;
+  streamPingIntervalMs: number;
+  /**
+   * Absolute path of the client keys file, when per-client keys are configured.
+   */
+  clientKeysFile?: string;
+  usage: UsageConfig;
+  rateLimits: RateLimitConfig;
+  /** How payloads are redacted when `DEBUG=true`. */
+  debug: RedactionConfig;
 }
 
-export function loadCodexConfig(): CodexConfig {
+function parseWireApi(raw: string): WireApi {
+  switch (raw.replace(/^\/+|\/+$/g, '')) {
+    case 'responses':
+      return 'responses';
+    case 'chat':
+    case 'chat/completions':
+      return 'chat';
+    default:
+      throw new Error(`Unsupported wire_api '${raw}'. Expected 'responses' or 'chat'`);
+  }
+}
+
+function parseThinkingBudgetEffort(raw: unknown): ThinkingBudgetEffort {
+  const thresholds = { ...DEFAULT_THINKING_BUDGET_EFFORT };
+  if (!raw || typeof raw !== 'object') {
+    return thresholds;
+  }
+  for (const effort of ['low', 'medium', 'high'] as const) {
+    const value = (raw as Record<string, unknown>)[effort];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`thinking_budget_effort.${effort} must be a non-negative number`);
+    }
+    thresholds[effort] = value;
+  }
+  return thresholds;
+}
+
+// Well below the 30-60 second idle timeouts of common gateways and load balancers.
+const DEFAULT_STREAM_PING_INTERVAL_MS = 10_000;
+
+/**
+ * Providers Codex knows without a `model_providers` entry.
+ */
+const BUILT_IN_PROVIDERS: Record<string, Record<string, unknown>> = {
+  openai: {
+    name: 'OpenAI',
+    base_url: 'https://api.openai.com/v1',
+    env_key: 'OPENAI_API_KEY',
+    wire_api: 'responses',
+  },
+  oss: {
+    name: 'gpt-oss',
+    base_url: 'http://localhost:11434/v1',
+    wire_api: 'chat',
+    auth: 'none',
+  },
+};
+
+function parseStringTable(raw: unknown, field: string, providerId: string): Record<string, string> {
+  if (raw === undefined) {
+    return {};
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`model_providers.${providerId}.${field} must be a table`);
+  }
+  const table: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value !== 'string') {
+      throw new Error(`model_providers.${providerId}.${field}.${key} must be a string`);
+    }
+    table[key] = value;
+  }
+  return table;
+}
+
+function isAzureProvider(providerId: string, baseUrl: string): boolean {
+  return providerId === 'azure' || /\.(openai|cognitiveservices)\.azure\.com/i.test(baseUrl);
+}
+
+function parseAuthStyle(raw: unknown, providerId: string, baseUrl: string): ProviderAuthStyle {
+  if (raw === undefined) {
+    return isAzureProvider(providerId, baseUrl) ? 'api-key' : 'bearer';
+  }
+  if (raw === 'api-key' || raw === 'bearer' || raw === 'none') {
+    return raw;
+  }
+  throw new Error(
+    `model_providers.${providerId}.auth must be one of 'api-key', 'bearer' or 'none'. Found: ${String(raw)}`,
+  );
+}
+
+function parseProvider(providerId: string, raw: unknown): ProviderConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`model_providers.${providerId} must be a table`);
+  }
+  const providerConfig = raw as Record<string, unknown>;
+  const optionalString = (field: string): string | undefined => {
+    const value = providerConfig[field];
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`model_providers.${providerId}.${field} must be a string`);
+    }
+    return value;
+  };
+  const baseUrl = optionalString('base_url');
+  const envKey = optionalString('env_key');
+  const wireApi = providerConfig.wire_api ?? 'chat';
+  const apiVersion = optionalString('api_version');
+
+  if (!baseUrl) {
+    throw new Error(`model_providers.${providerId} is missing required field base_url`);
+  }
+
+  const authStyle = parseAuthStyle(providerConfig.auth, providerId, baseUrl);
+  // Azure setups have long reused the Claude Code token as the API key; other providers only
+  // read their own env_key, so a proxy secret is never sent to a third party by accident.
+  const keyFallback = isAzureProvider(providerId, baseUrl)
+    ? process.env.ANTHROPIC_AUTH_TOKEN
+    : undefined;
+  const apiKey =
+    authStyle === 'none' ? undefined : (envKey ? process.env[envKey] : undefined) ?? keyFallback;
+
+  const httpHeaders = parseStringTable(providerConfig.http_headers, 'http_headers', providerId);
+  const envHttpHeaders = parseStringTable(
+    providerConfig.env_http_headers,
+    'env_http_headers',
+    providerId,
+  );
+  for (const [header, variable] of Object.entries(envHttpHeaders)) {
+    const value = process.env[variable];
+    if (value) {
+      httpHeaders[header] = value;
+    }
+  }
+
+  return {
+    id: providerId,
+    name: optionalString('name') ?? providerId,
+    baseUrl,
+    envKey,
+    wireApi: parseWireApi(String(wireApi)),
+    apiVersion,
+    apiKey,
+    authStyle,
+    httpHeaders,
+    queryParams: parseStringTable(providerConfig.query_params, 'query_params', providerId),
+  };
+}
+
+/**
+ * Why a provider that needs an API key has none, for startup errors.
+ */
+function missingApiKeyMessage(provider: ProviderConfig): string {
+  if (!provider.envKey) {
+    return (
+      `model_providers.${provider.id} has no env_key naming the variable that holds its API ` +
+      "key. Set env_key, or auth = 'none' if it needs no key"
+    );
+  }
+  const fallback = isAzureProvider(provider.id, provider.baseUrl) ? ' (or ANTHROPIC_AUTH_TOKEN)' : '';
+  return `Environment variable ${provider.envKey}${fallback} for ${provider.name} API key is not set`;
+}
+
+function readCodexConfigFile(): { configPath: string; parsed: Record<string, unknown> } {
   const configPath = path.join(os.homedir(), '.codex', 'config.toml');
   if (!fs.existsSync(configPath)) {
     throw new Error(`Config file not found at ${configPath}`);
   }
 
   const rawConfig = fs.readFileSync(configPath, 'utf8');
-  const parsed = toml.parse(rawConfig) as any;
+  // A TOML document is always a table.
+  return { configPath, parsed: toml.parse(rawConfig) as Record<string, unknown> };
+}
 
-  const model = parsed?.model;
-  const modelProvider = parsed?.model_provider;
-  if (!modelProvider || modelProvider !== 'azure') {
-    throw new Error(`Only 'azure' model_provider is supported. Found: ${modelProvider ?? 'undefined'}`);
+function optionalConfigString(parsed: Record<string, unknown>, field: string): string | undefined {
+  const value = parsed[field];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
   }
+  return value;
+}
 
-  const providerConfig = parsed?.model_providers?.[modelProvider];
-  if (!providerConfig) {
-    throw new Error(`Azure provider configuration missing in ${configPath}`);
+function optionalConfigBoolean(parsed: Record<string, unknown>, field: string): boolean {
+  const value = parsed[field] ?? false;
+  if (typeof value !== 'boolean') {
+    throw new Error(`${field} must be a boolean`);
   }
+  return value;
+}
+
+// Relative paths are resolved against ~/.codex, like the config file itself.
+function resolveConfigPath(configPath: string, file: string): string {
+  return path.resolve(path.dirname(configPath), file.replace(/^~(?=$|\/)/, os.homedir()));
+}
+
+function parseUsage(raw: unknown, configPath: string): UsageConfig {
+  const usage = parseUsageConfig(raw);
+  return { ...usage, log: usage.log && resolveConfigPath(configPath, usage.log) };
+}
+
+function parseDebug(raw: unknown, configPath: string): RedactionConfig {
+  const debug = parseRedactionConfig(raw);
+  return debug.payloadLog
+    ? { ...debug, payloadLog: resolveConfigPath(configPath, debug.payloadLog) }
+    : debug;
+}
+
+/**
+ * Only the `[usage]` settings, for commands that do not talk to a provider and so should not
+ * require its API key.
+ */
+export function loadUsageConfig(): UsageConfig {
+  const { configPath, parsed } = readCodexConfigFile();
+  return parseUsage(parsed.usage, configPath);
+}
+
+export function loadCodexConfig(): CodexConfig {
+  const { configPath, parsed } = readCodexConfigFile();
 
-  const baseUrl = providerConfig?.base_url;
-  const envKey = providerConfig?.env_key;
-  const wireApi = providerConfig?.wire_api;
-  const apiVersion = providerConfig?.api_version;
+  const model = optionalConfigString(parsed, 'model');
+  const modelProvider = optionalConfigString(parsed, 'model_provider') ?? 'openai';
 
-  if (!baseUrl || !envKey || !wireApi) {
-    throw new Error(`Azure provider configuration missing required fields (base_url, env_key, wire_api)`);
+  const rawProviders = parsed.model_providers ?? {};
+  if (!rawProviders || typeof rawProviders !== 'object' || Array.isArray(rawProviders)) {
+    throw new Error('model_providers must be a table');
+  }
+  const providerTables: Record<string, unknown> = {
+    ...BUILT_IN_PROVIDERS,
+    ...(rawProviders as Record<string, unknown>),
+  };
+  const providers: Record<string, ProviderConfig> = {};
+  for (const [providerId, providerConfig] of Object.entries(providerTables)) {
+    providers[providerId] = parseProvider(providerId, providerConfig);
   }
 
-  const apiKey = process.env[envKey] ?? process.env.ANTHROPIC_AUTH_TOKEN;
-  if (!apiKey) {
-    throw new Error(
-      `Environment variable ${envKey} (or fallback ANTHROPIC_AUTH_TOKEN) for Azure API key is not set`,
-    );
+  const provider = providers[modelProvider];
+  if (!provider) {
+    throw new Error(`Provider configuration for '${modelProvider}' missing in ${configPath}`);
+  }
+  if (provider.authStyle !== 'none' && !provider.apiKey) {
+    throw new Error(missingApiKeyMessage(provider));
   }
 
-  const reasoningEffort = parsed?.model_reasoning_effort;
+  const reasoningEffort = parsed.model_reasoning_effort;
+  const reasoningSummary = parsed.model_reasoning_summary;
+  const strictTools = optionalConfigBoolean(parsed, 'strict_tools');
+  const truncateToolResults = optionalConfigBoolean(parsed, 'truncate_tool_results');
+  const statefulResponses = optionalConfigBoolean(parsed, 'stateful_responses');
+  const streamPingIntervalMs = parsed.stream_ping_interval_ms ?? DEFAULT_STREAM_PING_INTERVAL_MS;
+  if (
+    typeof streamPingIntervalMs !== 'number' ||
+    !Number.isFinite(streamPingIntervalMs) ||
+    streamPingIntervalMs < 0
+  ) {
+    throw new Error('stream_ping_interval_ms must be a number >= 0');
+  }
+  const clientKeysFile = parsed.client_keys_file;
+  if (clientKeysFile !== undefined && (typeof clientKeysFile !== 'string' || !clientKeysFile)) {
+    throw new Error('client_keys_file must be a non-empty string');
+  }
+  const clientKeysPath =
+    clientKeysFile === undefined ? undefined : resolveConfigPath(configPath, clientKeysFile);
+
+  const contextWindows = parseContextWindows(parsed.context_windows);
+  // Codex's own setting applies to the configured model.
+  const modelContextWindow = parsed.model_context_window;
+  if (modelContextWindow !== undefined) {
+    if (typeof modelContextWindow !== 'number' || modelContextWindow <= 0) {
+      throw new Error('model_context_window must be a positive number');
+    }
+    if (model !== undefined) {
+      contextWindows.push({ match: model, tokens: modelContextWindow });
+    }
+  }
 
   return {
     model,
     modelProvider,
-    azure: {
-      name: providerConfig?.name ?? 'Azure OpenAI',
-      baseUrl,
-      envKey,
-      wireApi,
-      apiVersion,
-      apiKey,
-    },
+    provider,
+    providers,
+    routes: parseModelRoutes(parsed.routes, providers, provider),
+    retryPolicy: parseRetryPolicy(parsed.retry),
+    timeouts: { ...DEFAULT_UPSTREAM_TIMEOUTS, ...parseUpstreamTimeouts(parsed.timeouts, 'timeouts') },
     reasoningEffort: typeof reasoningEffort === 'string' ? reasoningEffort : undefined,
+    reasoningSummary: typeof reasoningSummary === 'string' ? reasoningSummary : undefined,
+    thinkingBudgetEffort: parseThinkingBudgetEffort(parsed.thinking_budget_effort),
+    strictTools,
+    contextWindows,
+    truncateToolResults,
+    statefulResponses,
+    streamPingIntervalMs,
+    clientKeysFile: clientKeysPath,
+    usage: parseUsage(parsed.usage, configPath),
+    rateLimits: parseRateLimitConfig(parsed.rate_limits),
+    debug: parseDebug(parsed.debug, configPath),
   };
 }
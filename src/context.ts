@@ -0,0 +1,122 @@
+import type { AzureFunctionCallOutput, AzureResponsesRequestBody } from './converters';
+import { InvalidRequestError } from './errors';
+import { modelMatches } from './routing';
+import { countRequestTokens } from './tokens';
+
+/**
+ * Maximum input tokens per deployment name pattern, checked in order.
+ */
+export type ContextWindows = Array<{ match: string; tokens: number }>;
+
+// Input limits of the models most deployments are named after. Configured entries take
+// precedence; deployments matching none of them are not checked.
+export const DEFAULT_CONTEXT_WINDOWS: ContextWindows = [
+  { match: 'gpt-5*', tokens: 272_000 },
+  { match: 'gpt-4.1*', tokens: 1_047_576 },
+  { match: 'gpt-41*', tokens: 1_047_576 },
+  { match: 'gpt-4o*', tokens: 128_000 },
+  { match: 'o1*', tokens: 200_000 },
+  { match: 'o3*', tokens: 200_000 },
+  { match: 'o4*', tokens: 200_000 },
+  { match: 'codex-mini*', tokens: 200_000 },
+];
+
+/**
+ * Parses the `[context_windows]` table, which maps deployment names or globs to their input
+ * token limit.
+ */
+export function parseContextWindows(raw: unknown): ContextWindows {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('context_windows must be a table of deployment names to token limits');
+  }
+  return Object.entries(raw as Record<string, unknown>).map(([match, tokens]) => {
+    if (typeof tokens !== 'number' || !Number.isInteger(tokens) || tokens <= 0) {
+      throw new Error(`context_windows.${match} must be a positive integer`);
+    }
+    return { match, tokens };
+  });
+}
+
+export function resolveContextWindow(
+  deployment: string,
+  configured: ContextWindows,
+): number | undefined {
+  const entry = [...configured, ...DEFAULT_CONTEXT_WINDOWS].find((candidate) =>
+    modelMatches(candidate.match, deployment),
+  );
+  return entry?.tokens;
+}
+
+/**
+ * The tool results of the current step, after the last function call, are what the model is
+ * about to act on and are never truncated.
+ */
+function truncatableOutputs(request: AzureResponsesRequestBody): AzureFunctionCallOutput[] {
+  let lastCallIndex = -1;
+  request.input.forEach((item, index) => {
+    if (item.type === 'function_call') {
+      lastCallIndex = index;
+    }
+  });
+  return request.input
+    .slice(0, Math.max(0, lastCallIndex))
+    .filter((item): item is AzureFunctionCallOutput => item.type === 'function_call_output');
+}
+
+function outputTokens(model: string, item: AzureFunctionCallOutput): number {
+  return countRequestTokens({ model, input: [item] });
+}
+
+const TRUNCATED_EXCERPT_LENGTH = 200;
+
+function truncatedOutput(output: AzureFunctionCallOutput['output'], tokens: number): string {
+  const note = `[Tool result truncated by the proxy to fit the context window; ${tokens} tokens omitted]`;
+  if (typeof output !== 'string' || output.length <= TRUNCATED_EXCERPT_LENGTH) {
+    return note;
+  }
+  return `${output.slice(0, TRUNCATED_EXCERPT_LENGTH)}…\n${note}`;
+}
+
+/**
+ * Checks the request against the deployment's context window before it is sent. With
+ * `truncateToolResults`, the oldest tool results are replaced by a short placeholder until the
+ * request fits; the calls and their results stay paired, so the transcript remains valid.
+ * Otherwise, or when that is not enough, fails with Anthropic's "prompt is too long" error, which
+ * makes Claude Code compact the conversation.
+ */
+export function fitToContextWindow(
+  request: AzureResponsesRequestBody,
+  contextWindow: number,
+  truncateToolResults = false,
+): void {
+  let tokens = countRequestTokens(request);
+  if (tokens <= contextWindow) {
+    return;
+  }
+
+  if (truncateToolResults) {
+    let truncated = 0;
+    for (const item of truncatableOutputs(request)) {
+      if (tokens <= contextWindow) {
+        break;
+      }
+      const before = outputTokens(request.model, item);
+      item.output = truncatedOutput(item.output, before);
+      tokens -= before - outputTokens(request.model, item);
+      truncated += 1;
+    }
+    if (truncated > 0) {
+      console.warn(
+        `Truncated ${truncated} old tool result(s) to fit the ${contextWindow} token context window`,
+      );
+    }
+    if (tokens <= contextWindow) {
+      return;
+    }
+  }
+
+  throw new InvalidRequestError(`prompt is too long: ${tokens} tokens > ${contextWindow} maximum`);
+}
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import {
+  AnthropicResponse,
+  anthropicToAzureRequest,
+  AzureInputItem,
+  AzureResponsesRequestBody,
+} from './converters';
+
+const DEFAULT_MAX_CONVERSATIONS = 1000;
+
+/**
+ * Remembers which upstream response continues each conversation prefix, so a request that
+ * extends a known prefix can send only its new items with `previous_response_id` instead of
+ * re-uploading the whole history.
+ */
+export interface ConversationStore {
+  /**
+   * Returns the request rewritten to continue a stored response, or `undefined` when no stored
+   * response matches a prefix of its input.
+   */
+  chain(scope: string, request: AzureResponsesRequestBody): AzureResponsesRequestBody | undefined;
+  /**
+   * Records the response that answered `request` (sent with its full input), keyed by the
+   * history the client will send back next turn: the input followed by the response as the
+   * client received it.
+   */
+  remember(
+    scope: string,
+    request: AzureResponsesRequestBody,
+    responseId: string,
+    response: AnthropicResponse,
+  ): void;
+  forget(responseId: string): void;
+}
+
+// Each prefix hash covers the scope and every item before it, so equal hashes mean the client
+// resent exactly the same history.
+function prefixHashes(scope: string, items: AzureInputItem[]): string[] {
+  let hash = crypto.createHash('sha256').update(scope).digest('hex');
+  return items.map((item) => {
+    hash = crypto.createHash('sha256').update(hash).update(JSON.stringify(item)).digest('hex');
+    return hash;
+  });
+}
+
+// The assistant turn as Claude Code will replay it, converted the same way the next request
+// will be.
+function replayedItems(response: AnthropicResponse): AzureInputItem[] {
+  return anthropicToAzureRequest(
+    { model: response.model, messages: [{ role: 'assistant', content: response.content }] },
+    response.model,
+  ).input;
+}
+
+export function createConversationStore(
+  maxConversations = DEFAULT_MAX_CONVERSATIONS,
+): ConversationStore {
+  // Insertion ordered, so the first key is the least recently used.
+  const responses = new Map<string, string>();
+
+  return {
+    chain(scope, request) {
+      const hashes = prefixHashes(scope, request.input);
+      // The last item is always new, so the longest usable prefix ends before it.
+      for (let length = hashes.length - 1; length > 0; length -= 1) {
+        const hash = hashes[length - 1];
+        const responseId = responses.get(hash);
+        if (responseId) {
+          responses.delete(hash);
+          responses.set(hash, responseId);
+          return {
+            ...request,
+            input: request.input.slice(length),
+            previous_response_id: responseId,
+            store: true,
+          };
+        }
+      }
+      return undefined;
+    },
+
+    remember(scope, request, responseId, response) {
+      const history = [...request.input, ...replayedItems(response)];
+      const hashes = prefixHashes(scope, history);
+      if (hashes.length === 0) {
+        return;
+      }
+      const hash = hashes[hashes.length - 1];
+      responses.delete(hash);
+      responses.set(hash, responseId);
+      while (responses.size > maxConversations) {
+        const oldest = responses.keys().next().value as string;
+        responses.delete(oldest);
+      }
+    },
+
+    forget(responseId) {
+      for (const [hash, storedId] of responses) {
+        if (storedId === responseId) {
+          responses.delete(hash);
+        }
+      }
+    },
+  };
+}
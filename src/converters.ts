@@ -1,6 +1,20 @@
+import crypto from 'crypto';
+import { fitToContextWindow } from './context';
+import { InvalidRequestError } from './errors';
+import { contentFilterNotice, filteredCategories } from './refusal';
+import { repairJson } from './repair';
+import { dropOptionalNulls, sanitizeToolSchema, validateAgainstSchema } from './schema';
+import { validateAnthropicRequest } from './validation';
+
+export type AnthropicCacheControl = {
+  type: 'ephemeral';
+  ttl?: string;
+};
+
 export type AnthropicTextBlock = {
   type: 'text';
   text: string;
+  cache_control?: AnthropicCacheControl;
 };
 
 export type AnthropicToolUseBlock = {
@@ -8,17 +22,24 @@ export type AnthropicToolUseBlock = {
   id: string;
   name: string;
   input: unknown;
+  cache_control?: AnthropicCacheControl;
 };
 
 export type AnthropicToolResultBlock = {
   type: 'tool_result';
   tool_use_id: string;
-  content?: string | AnthropicTextBlock[];
+  content?: string | AnthropicToolResultContent[];
   text?: string;
   is_error?: boolean;
   status?: string;
+  cache_control?: AnthropicCacheControl;
 };
 
+export type AnthropicToolResultContent =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock;
+
 export type AnthropicImageSource =
   | {
       type: 'base64';
@@ -37,13 +58,59 @@ export type AnthropicImageSource =
 export type AnthropicImageBlock = {
   type: 'image';
   source: AnthropicImageSource;
+  cache_control?: AnthropicCacheControl;
+};
+
+export type AnthropicThinkingBlock = {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+};
+
+export type AnthropicRedactedThinkingBlock = {
+  type: 'redacted_thinking';
+  data: string;
+};
+
+export type AnthropicDocumentSource =
+  | {
+      type: 'base64';
+      media_type: string;
+      data: string;
+    }
+  | {
+      type: 'text';
+      media_type?: string;
+      data: string;
+    }
+  | {
+      type: 'content';
+      content: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+    }
+  | {
+      type: 'url';
+      url: string;
+    };
+
+export type AnthropicDocumentBlock = {
+  type: 'document';
+  source: AnthropicDocumentSource;
+  title?: string;
+  context?: string;
+  citations?: {
+    enabled?: boolean;
+  };
+  cache_control?: AnthropicCacheControl;
 };
 
 export type AnthropicContentBlock =
   | AnthropicTextBlock
   | AnthropicToolUseBlock
   | AnthropicToolResultBlock
-  | AnthropicImageBlock;
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
 
 export interface AnthropicMessage {
   role: 'user' | 'assistant' | 'system';
@@ -54,29 +121,48 @@ export interface AnthropicToolDefinition {
   name: string;
   description?: string;
   input_schema: Record<string, unknown>;
+  cache_control?: AnthropicCacheControl;
 }
 
 export type AnthropicToolChoice =
   | 'auto'
   | 'none'
   | 'any'
+  | {
+      type: 'auto' | 'any' | 'none';
+      disable_parallel_tool_use?: boolean;
+    }
   | {
       type: 'tool';
       name: string;
+      disable_parallel_tool_use?: boolean;
+    };
+
+export type AnthropicThinkingConfig =
+  | {
+      type: 'enabled';
+      budget_tokens: number;
+    }
+  | {
+      type: 'disabled';
     };
 
 export interface AnthropicRequest {
   model: string;
-  system?: string;
+  system?: string | AnthropicTextBlock[];
   max_tokens?: number;
   temperature?: number;
   top_p?: number;
+  top_k?: number;
   stop_sequences?: string[];
   stream?: boolean;
   messages: AnthropicMessage[];
-  metadata?: Record<string, unknown>;
+  metadata?: {
+    user_id?: string | null;
+  };
   tools?: AnthropicToolDefinition[];
   tool_choice?: AnthropicToolChoice;
+  thinking?: AnthropicThinkingConfig;
   reasoning?: {
     effort?: string;
   };
@@ -88,13 +174,16 @@ export type AzureTextContentBlockType =
   | 'summary_text'
   | 'refusal'
   | 'input_image'
-  | 'input_file'
   | 'computer_screenshot'
   | 'tether_browsing_display';
 
 export interface AzureTextContentBlock {
   type: AzureTextContentBlockType;
   text: string;
+  /**
+   * Set instead of `text` on `refusal` parts.
+   */
+  refusal?: string;
 }
 
 export interface AzureImageContentBlock {
@@ -119,7 +208,18 @@ export interface AzureToolCallBlock {
   tool_calls: AzureToolCall[];
 }
 
-export type AzureContentBlock = AzureTextContentBlock | AzureToolCallBlock | AzureImageContentBlock;
+export interface AzureFileContentBlock {
+  type: 'input_file';
+  filename?: string;
+  file_data?: string;
+  file_url?: string;
+}
+
+export type AzureContentBlock =
+  | AzureTextContentBlock
+  | AzureToolCallBlock
+  | AzureImageContentBlock
+  | AzureFileContentBlock;
 
 export interface AzureMessageInput {
   type: 'message';
@@ -131,7 +231,7 @@ export interface AzureMessageInput {
 export interface AzureFunctionCallOutput {
   type: 'function_call_output';
   call_id: string;
-  output: string;
+  output: string | AzureContentBlock[];
 }
 
 export interface AzureFunctionCallInput {
@@ -141,13 +241,30 @@ export interface AzureFunctionCallInput {
   arguments: string;
 }
 
-export type AzureInputItem = AzureMessageInput | AzureFunctionCallOutput | AzureFunctionCallInput;
+export interface AzureReasoningSummaryPart {
+  type: 'summary_text';
+  text: string;
+}
+
+export interface AzureReasoningItem {
+  type: 'reasoning';
+  id?: string;
+  summary: AzureReasoningSummaryPart[];
+  encrypted_content?: string | null;
+}
+
+export type AzureInputItem =
+  | AzureMessageInput
+  | AzureFunctionCallOutput
+  | AzureFunctionCallInput
+  | AzureReasoningItem;
 
 export interface AzureToolDefinition {
   type: string;
   name?: string;
   description?: string;
   parameters?: Record<string, unknown>;
+  strict?: boolean;
   [key: string]: unknown;
 }
 
@@ -161,14 +278,20 @@ export interface AzureResponsesRequestBody {
   input: AzureInputItem[];
   temperature?: number;
   top_p?: number;
-  stop?: string[];
   max_output_tokens?: number;
-  metadata?: Record<string, unknown>;
+  user?: string;
   tools?: AzureToolDefinition[];
   tool_choice?: AzureToolChoice | 'auto' | 'none' | 'required';
+  parallel_tool_calls?: boolean;
   reasoning?: {
     effort?: string;
+    summary?: string;
   };
+  include?: string[];
+  prompt_cache_key?: string;
+  previous_response_id?: string;
+  store?: boolean;
+  stream?: boolean;
 }
 
 export interface AzureUsage {
@@ -177,6 +300,15 @@ export interface AzureUsage {
   total_tokens?: number;
   output_tokens?: number;
   input_tokens?: number;
+  input_tokens_details?: {
+    cached_tokens?: number;
+  };
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+  output_tokens_details?: {
+    reasoning_tokens?: number;
+  };
 }
 
 export interface AzureResponseOutputMessage {
@@ -193,9 +325,13 @@ export interface AzureResponseFunctionCall {
   call_id?: string;
   name?: string;
   arguments?: string;
+  status?: 'in_progress' | 'completed' | 'incomplete';
 }
 
-export type AzureResponseOutputItem = AzureResponseOutputMessage | AzureResponseFunctionCall;
+export type AzureResponseOutputItem =
+  | AzureResponseOutputMessage
+  | AzureResponseFunctionCall
+  | AzureReasoningItem;
 
 export interface AzureResponsesResponseBody {
   id?: string;
@@ -203,6 +339,14 @@ export interface AzureResponsesResponseBody {
   output?: AzureResponseOutputItem[];
   usage?: AzureUsage;
   output_text?: string;
+  status?: string;
+  incomplete_details?: {
+    reason?: string;
+  } | null;
+  /**
+   * Azure's per-category filter annotations.
+   */
+  content_filters?: unknown;
 }
 
 export interface AnthropicResponse {
@@ -213,13 +357,33 @@ export interface AnthropicResponse {
   content: AnthropicContentBlock[];
   stop_reason: string | null;
   stop_sequence: string | null;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
+  usage: AnthropicUsage;
+}
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * Azure reports cached tokens as part of the input; Anthropic reports them separately, with
+ * `input_tokens` covering only the uncached remainder.
+ */
+export function azureUsageToAnthropic(usage: AzureUsage | null | undefined): AnthropicUsage {
+  const totalInput = usage?.input_tokens ?? usage?.prompt_tokens ?? 0;
+  const cached =
+    usage?.input_tokens_details?.cached_tokens ?? usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    input_tokens: Math.max(0, totalInput - cached),
+    output_tokens: usage?.output_tokens ?? usage?.completion_tokens ?? 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: cached,
   };
 }
 
-function normalizeToString(value: unknown): string {
+export function normalizeToString(value: unknown): string {
   if (typeof value === 'string') {
     return value;
   }
@@ -245,7 +409,7 @@ function normalizeMessageContent(content: AnthropicMessage['content']): Anthropi
   }
 
   if (!Array.isArray(content)) {
-    throw new Error('Message content must be a string or an array of content blocks');
+    throw new InvalidRequestError('Message content must be a string or an array of content blocks');
   }
 
   return content.map((item) => {
@@ -253,7 +417,7 @@ function normalizeMessageContent(content: AnthropicMessage['content']): Anthropi
       return { type: 'text', text: normalizeToString(item) };
     }
     if (!item || typeof item !== 'object' || !('type' in item)) {
-      throw new Error('Unsupported content block format');
+      throw new InvalidRequestError('Unsupported content block format');
     }
 
     const block = item as AnthropicContentBlock;
@@ -262,7 +426,7 @@ function normalizeMessageContent(content: AnthropicMessage['content']): Anthropi
         return { type: 'text', text: normalizeToString(block.text) };
       case 'tool_use':
         if (!('id' in block) || !('name' in block)) {
-          throw new Error('tool_use block must include id and name');
+          throw new InvalidRequestError('tool_use block must include id and name');
         }
         return {
           type: 'tool_use',
@@ -272,7 +436,7 @@ function normalizeMessageContent(content: AnthropicMessage['content']): Anthropi
         };
       case 'tool_result':
         if (!('tool_use_id' in block)) {
-          throw new Error('tool_result block must include tool_use_id');
+          throw new InvalidRequestError('tool_result block must include tool_use_id');
         }
       return {
         type: 'tool_result',
@@ -284,27 +448,54 @@ function normalizeMessageContent(content: AnthropicMessage['content']): Anthropi
       };
       case 'image':
         if (!('source' in block)) {
-          throw new Error('image block must include source');
+          throw new InvalidRequestError('image block must include source');
         }
         return {
           type: 'image',
           source: (block as AnthropicImageBlock).source,
         };
+      case 'document':
+        if (!('source' in block) || !block.source || typeof block.source !== 'object') {
+          throw new InvalidRequestError('document block must include source');
+        }
+        return {
+          type: 'document',
+          source: block.source,
+          title: typeof block.title === 'string' ? block.title : undefined,
+          context: typeof block.context === 'string' ? block.context : undefined,
+          citations: block.citations,
+        };
+      case 'thinking':
+        return {
+          type: 'thinking',
+          thinking: normalizeToString(block.thinking),
+          signature: typeof block.signature === 'string' ? block.signature : undefined,
+        };
+      case 'redacted_thinking':
+        if (typeof block.data !== 'string') {
+          throw new InvalidRequestError('redacted_thinking block must include data');
+        }
+        return {
+          type: 'redacted_thinking',
+          data: block.data,
+        };
       default:
-        throw new Error(`Unsupported content block type: ${(block as { type: string }).type}`);
+        throw new InvalidRequestError(`Unsupported content block type: ${(block as { type: string }).type}`);
     }
   });
 }
 
-function serializeToolResultOutput(block: AnthropicToolResultBlock): string {
+/**
+ * Marks failed tool calls (`is_error: true`) in the output the model sees, so errors read the same
+ * whatever shape the tool result had.
+ */
+const TOOL_ERROR_PREFIX = '[tool_error]';
+
+function serializeToolResultText(block: AnthropicToolResultBlock): string {
   if (typeof block.content === 'string') {
     return block.content;
   }
 
-  if (Array.isArray(block.content)) {
-    return block.content.map((part) => normalizeToString(part.text)).join('');
-  }
-
   if (typeof block.text === 'string') {
     return block.text;
   }
@@ -313,9 +504,6 @@ function serializeToolResultOutput(block: AnthropicToolResultBlock): string {
   if (block.content !== undefined) {
     payload.content = block.content;
   }
-  if (block.is_error !== undefined) {
-    payload.is_error = block.is_error;
-  }
   if (block.status !== undefined) {
     payload.status = block.status;
   }
@@ -326,22 +514,199 @@ function serializeToolResultOutput(block: AnthropicToolResultBlock): string {
   });
 }
 
+/**
+ * Text-only tool results are sent as a plain string; results carrying images or documents (e.g.
+ * browser screenshots) are sent as structured `input_text`/`input_image`/`input_file` content.
+ */
+function toolResultOutputToAzure(block: AnthropicToolResultBlock): string | AzureContentBlock[] {
+  const errorPrefix = block.is_error ? TOOL_ERROR_PREFIX : '';
+
+  if (!Array.isArray(block.content)) {
+    const text = serializeToolResultText(block);
+    if (!errorPrefix) {
+      return text;
+    }
+    return text ? `${errorPrefix} ${text}` : errorPrefix;
+  }
+
+  const parts: AzureContentBlock[] = [];
+  for (const part of block.content) {
+    if (typeof part === 'string') {
+      parts.push({ type: 'input_text', text: part });
+      continue;
+    }
+    switch (part?.type) {
+      case 'text':
+        parts.push({ type: 'input_text', text: normalizeToString(part.text) });
+        break;
+      case 'image':
+        parts.push(anthropicImageToAzure(part));
+        break;
+      case 'document':
+        parts.push(...anthropicDocumentToAzure(part));
+        break;
+      default:
+        throw new InvalidRequestError(
+          `Unsupported tool_result content block type: ${(part as { type?: string })?.type}`,
+        );
+    }
+  }
+
+  if (parts.every((part) => part.type === 'input_text')) {
+    const text = parts.map((part) => (part as AzureTextContentBlock).text).join('');
+    if (!errorPrefix) {
+      return text;
+    }
+    return text ? `${errorPrefix} ${text}` : errorPrefix;
+  }
+  if (errorPrefix) {
+    parts.unshift({ type: 'input_text', text: errorPrefix });
+  }
+  return parts;
+}
+
+/**
+ * Tools whose non-object input schema is sent wrapped in a `value` property; their calls are
+ * unwrapped on the way back and wrapped again when the history is replayed.
+ */
+function wrappedToolNames(tools: AnthropicToolDefinition[] | undefined): Set<string> {
+  return new Set(
+    (tools ?? [])
+      .filter((tool) => sanitizeToolSchema(tool.input_schema).wrapped)
+      .map((tool) => tool.name),
+  );
+}
+
 function anthropicToolsToAzure(
   tools: AnthropicToolDefinition[] | undefined,
+  options: AzureRequestOptions | undefined,
 ): AzureToolDefinition[] | undefined {
   if (!tools || tools.length === 0) {
     return undefined;
   }
 
-  return tools.map((tool) => ({
-    type: 'function',
-    name: tool.name,
-    description: tool.description,
-    parameters:
-      tool.input_schema && Object.keys(tool.input_schema).length > 0
-        ? tool.input_schema
-        : { type: 'object', properties: {} },
-  }));
+  return tools.map((tool) => {
+    const { schema, strict, diagnostics } = sanitizeToolSchema(tool.input_schema, {
+      strict: options?.strictTools,
+    });
+    if (diagnostics.length > 0) {
+      options?.onToolSchemaDiagnostics?.(tool.name, diagnostics);
+    }
+    const definition: AzureToolDefinition = {
+      type: 'function',
+      name: tool.name,
+      description: tool.description,
+      parameters: schema,
+    };
+    if (strict) {
+      definition.strict = true;
+    }
+    return definition;
+  });
+}
+
+export type ToolInputResult = { input: unknown } | { error: string };
+
+/**
+ * Turns the raw `arguments` string of a function call into the `input` of a tool_use block, or
+ * explains why the arguments cannot be used.
+ */
+export type ToolInputDecoder = (toolName: string, rawArguments: string | undefined) => ToolInputResult;
+
+function parseJsonObject(text: string): Record<string, unknown> | null | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses function call arguments, repairing malformed JSON. No-argument calls may arrive with
+ * empty arguments.
+ */
+export const decodeToolInput: ToolInputDecoder = (_toolName, rawArguments) => {
+  const text = rawArguments?.trim() ? rawArguments : '{}';
+  let input = parseJsonObject(text);
+  if (input === undefined) {
+    input = parseJsonObject(repairJson(text));
+  }
+  if (input === undefined) {
+    return { error: 'the arguments are not valid JSON' };
+  }
+  if (input === null) {
+    return { error: 'the arguments are not a JSON object' };
+  }
+  return { input };
+};
+
+/**
+ * For calls the response stopped in the middle of (output token limit, content filter): their
+ * arguments are incomplete even when they happen to parse, so the call is never run.
+ */
+export const rejectUnfinishedToolInput: ToolInputDecoder = () => ({
+  error: 'the response ended before the arguments were complete',
+});
+
+/**
+ * Decodes tool arguments and checks them against the tool's `input_schema` from the request.
+ * `null` for an optional property is treated as omitted: strict mode makes optional properties
+ * nullable, and models send them that way unprompted too.
+ */
+export function createToolInputDecoder(body: AnthropicRequest): ToolInputDecoder {
+  if (!Array.isArray(body.tools) || body.tools.length === 0) {
+    return decodeToolInput;
+  }
+  const schemas = new Map(
+    body.tools.map((tool) => [tool.name, sanitizeToolSchema(tool.input_schema)]),
+  );
+  return (toolName, rawArguments) => {
+    const result = decodeToolInput(toolName, rawArguments);
+    const sanitized = schemas.get(toolName);
+    if ('error' in result || !sanitized) {
+      return result;
+    }
+    const input = dropOptionalNulls(result.input, sanitized.schema) as Record<string, unknown>;
+    const problems = validateAgainstSchema(input, sanitized.schema);
+    if (problems.length > 0) {
+      return { error: problems.slice(0, 5).join('; ') };
+    }
+    return { input: sanitized.wrapped ? input.value : input };
+  };
+}
+
+const MAX_QUOTED_ARGUMENTS_LENGTH = 500;
+
+/**
+ * Explains a tool call whose arguments could not be used, in place of running the tool with
+ * made-up input.
+ */
+export function invalidToolCallText(
+  toolName: string,
+  rawArguments: string | undefined,
+  error: string,
+): string {
+  const raw = rawArguments ?? '';
+  const quoted =
+    raw.length > MAX_QUOTED_ARGUMENTS_LENGTH ? `${raw.slice(0, MAX_QUOTED_ARGUMENTS_LENGTH)}…` : raw;
+  return (
+    `[Invalid tool call] The call to ${toolName} was not run because ${error}. ` +
+    `Arguments received: ${quoted || '(empty)'}`
+  );
+}
+
+export function toolCallToAnthropic(
+  id: string,
+  toolName: string,
+  rawArguments: string | undefined,
+  decodeInput: ToolInputDecoder,
+): AnthropicContentBlock {
+  const result = decodeInput(toolName, rawArguments);
+  if ('error' in result) {
+    return { type: 'text', text: invalidToolCallText(toolName, rawArguments, result.error) };
+  }
+  return { type: 'tool_use', id, name: toolName, input: result.input };
 }
 
 function anthropicToolChoiceToAzure(
@@ -351,27 +716,111 @@ function anthropicToolChoiceToAzure(
     return undefined;
   }
 
-  if (toolChoice === 'auto') {
-    return 'auto';
+  const type = typeof toolChoice === 'string' ? toolChoice : toolChoice.type;
+  switch (type) {
+    case 'auto':
+      return 'auto';
+    case 'none':
+      return 'none';
+    case 'any':
+      return 'required';
+    case 'tool':
+      return {
+        type: 'function',
+        name: (toolChoice as { name: string }).name,
+      };
+    default:
+      return undefined;
   }
-  if (toolChoice === 'none') {
-    return 'none';
+}
+
+const REASONING_SIGNATURE_PREFIX = 'azure-reasoning:';
+
+/**
+ * Anthropic clients send thinking blocks back verbatim, so the Azure reasoning item id and its
+ * encrypted content travel inside the block signature (or redacted_thinking data).
+ */
+export function encodeReasoningSignature(item: AzureReasoningItem): string {
+  const payload = JSON.stringify({
+    id: item.id,
+    encrypted_content: item.encrypted_content ?? undefined,
+  });
+  return `${REASONING_SIGNATURE_PREFIX}${Buffer.from(payload, 'utf8').toString('base64')}`;
+}
+
+function decodeReasoningSignature(
+  signature: string | undefined,
+): { id?: string; encrypted_content?: string } | null {
+  if (!signature || !signature.startsWith(REASONING_SIGNATURE_PREFIX)) {
+    return null;
   }
-  if (toolChoice === 'any') {
-    return 'required';
+  const encoded = signature.slice(REASONING_SIGNATURE_PREFIX.length);
+  const decoded = safeJsonParse<{ id?: unknown; encrypted_content?: unknown } | null>(
+    Buffer.from(encoded, 'base64').toString('utf8'),
+    null,
+  );
+  if (!decoded || typeof decoded !== 'object') {
+    return null;
   }
+  return {
+    id: typeof decoded.id === 'string' ? decoded.id : undefined,
+    encrypted_content:
+      typeof decoded.encrypted_content === 'string' ? decoded.encrypted_content : undefined,
+  };
+}
 
-  if (toolChoice.type === 'tool') {
-    return {
-      type: 'function',
-      name: toolChoice.name,
-    };
+function anthropicThinkingToAzure(
+  block: AnthropicThinkingBlock | AnthropicRedactedThinkingBlock,
+): AzureReasoningItem | null {
+  const reference = decodeReasoningSignature(
+    block.type === 'thinking' ? block.signature : block.data,
+  );
+  // Thinking produced by another backend cannot be replayed to Azure.
+  if (!reference || (!reference.id && !reference.encrypted_content)) {
+    return null;
   }
 
-  return undefined;
+  const item: AzureReasoningItem = {
+    type: 'reasoning',
+    summary:
+      block.type === 'thinking' && block.thinking.length > 0
+        ? [{ type: 'summary_text', text: block.thinking }]
+        : [],
+  };
+  if (reference.encrypted_content) {
+    item.encrypted_content = reference.encrypted_content;
+  } else {
+    item.id = reference.id;
+  }
+  return item;
 }
 
-function safeJsonParse<T = unknown>(value: string | undefined, fallback: T): T {
+export interface ThinkingBudgetEffort {
+  low: number;
+  medium: number;
+  high: number;
+}
+
+export const DEFAULT_THINKING_BUDGET_EFFORT: ThinkingBudgetEffort = {
+  low: 0,
+  medium: 8_000,
+  high: 24_000,
+};
+
+export function thinkingBudgetToEffort(
+  budgetTokens: number,
+  thresholds: ThinkingBudgetEffort = DEFAULT_THINKING_BUDGET_EFFORT,
+): string {
+  if (budgetTokens >= thresholds.high) {
+    return 'high';
+  }
+  if (budgetTokens >= thresholds.medium) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+export function safeJsonParse<T = unknown>(value: string | undefined, fallback: T): T {
   if (!value) {
     return fallback;
   }
@@ -385,13 +834,13 @@ function safeJsonParse<T = unknown>(value: string | undefined, fallback: T): T {
 function anthropicImageToAzure(block: AnthropicImageBlock): AzureImageContentBlock {
   const source = block.source;
   if (!source || typeof source !== 'object' || !('type' in source)) {
-    throw new Error('Image block is missing source information');
+    throw new InvalidRequestError('Image block is missing source information');
   }
 
   if (source.type === 'base64') {
     const mediaType = source.media_type ?? 'image/png';
     if (!source.data) {
-      throw new Error('Image block with base64 source is missing data');
+      throw new InvalidRequestError('Image block with base64 source is missing data');
     }
     return {
       type: 'input_image',
@@ -401,7 +850,7 @@ function anthropicImageToAzure(block: AnthropicImageBlock): AzureImageContentBlo
 
   if (source.type === 'url' || source.type === 'input_image_url') {
     if (!source.url) {
-      throw new Error('Image block with url source is missing url');
+      throw new InvalidRequestError('Image block with url source is missing url');
     }
     return {
       type: 'input_image',
@@ -409,25 +858,189 @@ function anthropicImageToAzure(block: AnthropicImageBlock): AzureImageContentBlo
     };
   }
 
-  throw new Error(`Unsupported image source type: ${(source as { type: string }).type}`);
+  throw new InvalidRequestError(`Unsupported image source type: ${(source as { type: string }).type}`);
+}
+
+function hasCacheControl(value: unknown): boolean {
+  return Boolean(value && typeof value === 'object' && (value as { cache_control?: unknown }).cache_control);
+}
+
+/**
+ * Derives a `prompt_cache_key` from the request prefix up to its first `cache_control` breakpoint
+ * (Anthropic's prefix order: tools, system, messages). Claude Code puts that first breakpoint on
+ * the system prompt, so the key stays the same across every turn of a session and Azure keeps
+ * routing the session to the same prompt cache.
+ */
+export function derivePromptCacheKey(body: AnthropicRequest, model: string): string | undefined {
+  const segments: unknown[] = [];
+  const candidates: unknown[] = [
+    ...(body.tools ?? []),
+    ...(Array.isArray(body.system) ? body.system : body.system ? [body.system] : []),
+  ];
+  for (const message of body.messages ?? []) {
+    const blocks = Array.isArray(message?.content) ? message.content : [message?.content];
+    candidates.push(...blocks.map((block) => ({ role: message?.role, block })));
+  }
+
+  for (const candidate of candidates) {
+    const target =
+      candidate && typeof candidate === 'object' && 'block' in candidate
+        ? (candidate as { block: unknown }).block
+        : candidate;
+    segments.push(candidate);
+    if (hasCacheControl(target)) {
+      const serialized = JSON.stringify([model, segments], (key, value) =>
+        key === 'cache_control' ? undefined : value,
+      );
+      return `anthropic-${crypto.createHash('sha256').update(serialized).digest('hex').slice(0, 32)}`;
+    }
+  }
+  return undefined;
+}
+
+// The upstream picks a parser by the file extension; media types whose subtype is not the usual
+// extension are listed here.
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.ms-powerpoint': '.ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+  'application/vnd.oasis.opendocument.text': '.odt',
+};
+
+function documentExtension(mediaType: string): string {
+  const essence = mediaType.split(';')[0].trim().toLowerCase();
+  const subtype = essence.split('/')[1] ?? '';
+  return DOCUMENT_EXTENSIONS[essence] ?? (/^[a-z0-9]+$/.test(subtype) ? `.${subtype}` : '');
+}
+
+function documentFilename(block: AnthropicDocumentBlock, mediaType: string): string {
+  const extension = documentExtension(mediaType);
+  const title = block.title?.trim().replace(/[\\/:*?"<>|\r\n]+/g, '_');
+  if (!title) {
+    return `document${extension}`;
+  }
+  return extension && !title.toLowerCase().endsWith(extension) ? `${title}${extension}` : title;
+}
+
+function documentPreamble(block: AnthropicDocumentBlock): string {
+  const lines: string[] = [];
+  if (block.title) {
+    lines.push(`Document: ${block.title}`);
+  }
+  if (block.context) {
+    lines.push(`Context: ${block.context}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * PDFs and other binary documents become `input_file` items; plain-text documents are inlined as
+ * `input_text`, prefixed with their title and context. Citations cannot be produced upstream, so
+ * `citations` is accepted and ignored.
+ */
+function anthropicDocumentToAzure(block: AnthropicDocumentBlock): AzureContentBlock[] {
+  const source = block.source;
+  const preamble = documentPreamble(block);
+  const inlineText = (text: string): AzureContentBlock => ({
+    type: 'input_text',
+    text: preamble ? `${preamble}\n\n${text}` : text,
+  });
+  const withPreamble = (file: AzureContentBlock): AzureContentBlock[] =>
+    preamble ? [{ type: 'input_text', text: preamble }, file] : [file];
+
+  switch (source.type) {
+    case 'base64': {
+      if (!source.data) {
+        throw new InvalidRequestError('document block with base64 source is missing data');
+      }
+      const mediaType = source.media_type ?? 'application/pdf';
+      if (mediaType.startsWith('text/')) {
+        return [inlineText(Buffer.from(source.data, 'base64').toString('utf8'))];
+      }
+      return withPreamble({
+        type: 'input_file',
+        filename: documentFilename(block, mediaType),
+        file_data: `data:${mediaType};base64,${source.data}`,
+      });
+    }
+    case 'text':
+      return [inlineText(normalizeToString(source.data))];
+    case 'content': {
+      if (typeof source.content === 'string') {
+        return [inlineText(source.content)];
+      }
+      if (!Array.isArray(source.content)) {
+        throw new InvalidRequestError('document block with content source must include content');
+      }
+      const parts: AzureContentBlock[] = preamble ? [{ type: 'input_text', text: preamble }] : [];
+      for (const part of source.content) {
+        if (part?.type === 'text') {
+          parts.push({ type: 'input_text', text: normalizeToString(part.text) });
+        } else if (part?.type === 'image') {
+          parts.push(anthropicImageToAzure(part));
+        } else {
+          throw new InvalidRequestError(
+            `Unsupported document content block type: ${(part as { type?: string })?.type}`,
+          );
+        }
+      }
+      return parts;
+    }
+    case 'url':
+      if (!source.url) {
+        throw new InvalidRequestError('document block with url source is missing url');
+      }
+      return withPreamble({
+        type: 'input_file',
+        filename: documentFilename(block, 'application/pdf'),
+        file_url: source.url,
+      });
+    default:
+      throw new InvalidRequestError(
+        `Unsupported document source type: ${(source as { type: string }).type}`,
+      );
+  }
+}
+
+export interface AzureRequestOptions {
+  defaultReasoningEffort?: string;
+  reasoningSummary?: string;
+  thinkingBudgetEffort?: ThinkingBudgetEffort;
+  /**
+   * Rewrite tool schemas for strict function calling where possible.
+   */
+  strictTools?: boolean;
+  onToolSchemaDiagnostics?: (toolName: string, diagnostics: string[]) => void;
+  /**
+   * Input token limit of the target deployment; the request is checked against it when set.
+   */
+  contextWindow?: number;
+  truncateToolResults?: boolean;
 }
 
 export function anthropicToAzureRequest(
   body: AnthropicRequest,
-  fallbackModel: string,
-  options?: { defaultReasoningEffort?: string },
+  fallbackModel: string | undefined,
+  options?: AzureRequestOptions,
 ): AzureResponsesRequestBody {
-  if (!Array.isArray(body.messages) || body.messages.length === 0) {
-    throw new Error('Anthropic request must include at least one message');
-  }
+  validateAnthropicRequest(body);
 
   const input: AzureInputItem[] = [];
-
-  if (body.system) {
+  const wrappedTools = wrappedToolNames(body.tools);
+
+  const systemBlocks = typeof body.system === 'string' ? [body.system] : body.system ?? [];
+  const systemContent: AzureContentBlock[] = systemBlocks
+    .map((block) => (typeof block === 'string' ? block : block.text))
+    .filter((text) => text.length > 0)
+    .map((text) => ({ type: 'input_text', text }));
+  if (systemContent.length > 0) {
     input.push({
       type: 'message',
       role: 'system',
-      content: [{ type: 'input_text', text: normalizeToString(body.system) }],
+      content: systemContent,
     });
   }
 
@@ -463,13 +1076,21 @@ export function anthropicToAzureRequest(
         case 'image':
           messageContent.push(anthropicImageToAzure(block));
           break;
+        case 'document':
+          if (role === 'assistant') {
+            throw new InvalidRequestError('document blocks are only supported in user messages');
+          }
+          messageContent.push(...anthropicDocumentToAzure(block));
+          break;
         case 'tool_use':
           flushMessage();
           input.push({
             type: 'function_call',
             call_id: block.id,
             name: block.name,
-            arguments: JSON.stringify(block.input ?? {}),
+            arguments: JSON.stringify(
+              wrappedTools.has(block.name) ? { value: block.input } : block.input ?? {},
+            ),
           });
           break;
         case 'tool_result':
@@ -477,11 +1098,23 @@ export function anthropicToAzureRequest(
           input.push({
             type: 'function_call_output',
             call_id: block.tool_use_id,
-            output: serializeToolResultOutput(block),
+            output: toolResultOutputToAzure(block),
           });
           break;
+        case 'thinking':
+        case 'redacted_thinking': {
+          if (role !== 'assistant') {
+            break;
+          }
+          const reasoningItem = anthropicThinkingToAzure(block);
+          if (reasoningItem) {
+            flushMessage();
+            input.push(reasoningItem);
+          }
+          break;
+        }
         default:
-          throw new Error(`Unsupported content block type: ${(block as { type: string }).type}`);
+          throw new InvalidRequestError(`Unsupported content block type: ${(block as { type: string }).type}`);
       }
     }
 
@@ -493,7 +1126,7 @@ export function anthropicToAzureRequest(
     '';
 
   if (!requestedModel) {
-    throw new Error('No model specified in request or config');
+    throw new InvalidRequestError('No model specified in request or config');
   }
 
   const azureRequest: AzureResponsesRequestBody = {
@@ -507,22 +1140,40 @@ export function anthropicToAzureRequest(
   if (typeof body.top_p === 'number') {
     azureRequest.top_p = body.top_p;
   }
-  if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) {
-    azureRequest.stop = body.stop_sequences;
-  }
   if (typeof body.max_tokens === 'number') {
     azureRequest.max_output_tokens = body.max_tokens;
   }
-  if (body.metadata) {
-    azureRequest.metadata = body.metadata;
+  // Neither upstream API samples with top_k, so it is accepted and dropped.
+  if (typeof body.metadata?.user_id === 'string' && body.metadata.user_id.length > 0) {
+    azureRequest.user = body.metadata.user_id;
+  }
+  if (body.stream) {
+    azureRequest.stream = true;
   }
 
-  const reasoningEffort = body.reasoning?.effort ?? options?.defaultReasoningEffort;
+  const promptCacheKey = derivePromptCacheKey(body, requestedModel);
+  if (promptCacheKey) {
+    azureRequest.prompt_cache_key = promptCacheKey;
+  }
+
+  const thinkingEffort =
+    body.thinking?.type === 'enabled' && typeof body.thinking.budget_tokens === 'number'
+      ? thinkingBudgetToEffort(body.thinking.budget_tokens, options?.thinkingBudgetEffort)
+      : undefined;
+  const reasoningEffort =
+    body.reasoning?.effort ?? thinkingEffort ?? options?.defaultReasoningEffort;
   if (typeof reasoningEffort === 'string' && reasoningEffort.trim().length > 0) {
     azureRequest.reasoning = { effort: reasoningEffort };
   }
+  if (thinkingEffort) {
+    const summary = options?.reasoningSummary ?? 'auto';
+    if (summary !== 'none') {
+      azureRequest.reasoning = { ...azureRequest.reasoning, summary };
+    }
+    azureRequest.include = ['reasoning.encrypted_content'];
+  }
 
-  const azureTools = anthropicToolsToAzure(body.tools);
+  const azureTools = anthropicToolsToAzure(body.tools, options);
   if (azureTools) {
     azureRequest.tools = azureTools;
   }
@@ -531,28 +1182,117 @@ export function anthropicToAzureRequest(
   if (toolChoice) {
     azureRequest.tool_choice = toolChoice;
   }
+  if (typeof body.tool_choice === 'object' && body.tool_choice.disable_parallel_tool_use) {
+    azureRequest.parallel_tool_calls = false;
+  }
+
+  if (options?.contextWindow) {
+    fitToContextWindow(azureRequest, options.contextWindow, options.truncateToolResults);
+  }
 
   return azureRequest;
 }
 
-function mapStopReason(responseStopReason: string | null | undefined, hasToolCall: boolean): string {
-  if (responseStopReason) {
-    return responseStopReason;
+export function mapStopReason(
+  responseStopReason: string | null | undefined,
+  hasToolCall: boolean,
+  incompleteReason?: string | null,
+): string {
+  if (incompleteReason === 'max_output_tokens') {
+    return 'max_tokens';
+  }
+  if (incompleteReason === 'content_filter') {
+    return 'refusal';
   }
   if (hasToolCall) {
     return 'tool_use';
   }
+  if (responseStopReason) {
+    return responseStopReason;
+  }
   return 'end_turn';
 }
 
+/**
+ * Finds the earliest occurrence of any stop sequence in `text`.
+ */
+export function findStopSequence(
+  text: string,
+  stopSequences: string[],
+): { index: number; sequence: string } | null {
+  let found: { index: number; sequence: string } | null = null;
+  for (const sequence of stopSequences) {
+    if (!sequence) {
+      continue;
+    }
+    const index = text.indexOf(sequence);
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { index, sequence };
+    }
+  }
+  return found;
+}
+
+/**
+ * Upstream APIs do not reliably honor stop sequences, so they are enforced here: text is cut at
+ * the first match and everything generated after it is dropped.
+ */
+export function applyStopSequences(
+  response: AnthropicResponse,
+  stopSequences: string[] | undefined,
+): AnthropicResponse {
+  if (!stopSequences || stopSequences.length === 0) {
+    return response;
+  }
+  for (let index = 0; index < response.content.length; index += 1) {
+    const block = response.content[index];
+    if (block.type !== 'text') {
+      continue;
+    }
+    const match = findStopSequence(block.text, stopSequences);
+    if (match) {
+      return {
+        ...response,
+        content: [
+          ...response.content.slice(0, index),
+          { ...block, text: block.text.slice(0, match.index) },
+        ],
+        stop_reason: 'stop_sequence',
+        stop_sequence: match.sequence,
+      };
+    }
+  }
+  return response;
+}
+
+export function azureReasoningToAnthropic(
+  item: AzureReasoningItem,
+): AnthropicThinkingBlock | AnthropicRedactedThinkingBlock | null {
+  const thinking = (item.summary ?? [])
+    .map((part) => normalizeToString(part?.text))
+    .filter((text) => text.length > 0)
+    .join('\n\n');
+  if (!thinking && !item.encrypted_content) {
+    return null;
+  }
+  const signature = encodeReasoningSignature(item);
+  if (!thinking) {
+    return { type: 'redacted_thinking', data: signature };
+  }
+  return { type: 'thinking', thinking, signature };
+}
+
 export function azureToAnthropicResponse(
   data: AzureResponsesResponseBody,
   requestedModel: string,
+  decodeInput: ToolInputDecoder = decodeToolInput,
 ): AnthropicResponse {
   const contentBlocks: AnthropicContentBlock[] = [];
-  let stopReason: string | null = null;
+  let messageStopReason: string | null | undefined;
+  let sawRefusal = false;
 
   const processedToolCallIds = new Set<string>();
+  const stoppedEarly = data.status === 'incomplete' || Boolean(data.incomplete_details?.reason);
 
   for (const item of data.output ?? []) {
     if (!item) {
@@ -571,23 +1311,29 @@ export function azureToAnthropicResponse(
             type: 'text',
             text: normalizeToString(block.text),
           });
+        } else if (block.type === 'refusal') {
+          sawRefusal = true;
+          contentBlocks.push({
+            type: 'text',
+            text: normalizeToString(block.refusal ?? block.text),
+          });
         } else if (block.type === 'tool_calls') {
           for (const call of block.tool_calls ?? []) {
             const callName = call.name ?? call.function?.name ?? 'tool';
             const callId = call.id ?? callName ?? `tool_${contentBlocks.length}`;
             processedToolCallIds.add(callId);
-            contentBlocks.push({
-              type: 'tool_use',
-              id: callId,
-              name: callName,
-              input: safeJsonParse(call.arguments ?? call.function?.arguments, {}),
-            });
+            contentBlocks.push(
+              toolCallToAnthropic(callId, callName, call.arguments ?? call.function?.arguments, decodeInput),
+            );
           }
         }
       }
 
-      if (!stopReason) {
-        stopReason = mapStopReason(message.stop_reason, processedToolCallIds.size > 0);
+      messageStopReason = messageStopReason ?? message.stop_reason;
+    } else if (item.type === 'reasoning') {
+      const thinkingBlock = azureReasoningToAnthropic(item);
+      if (thinkingBlock) {
+        contentBlocks.push(thinkingBlock);
       }
     } else if (item.type === 'function_call') {
       const call = item as AzureResponseFunctionCall;
@@ -597,44 +1343,49 @@ export function azureToAnthropicResponse(
         continue;
       }
       processedToolCallIds.add(callId);
-      contentBlocks.push({
-        type: 'tool_use',
-        id: callId,
-        name: callName,
-        input: safeJsonParse(call.arguments, {}),
-      });
-      if (!stopReason) {
-        stopReason = 'tool_use';
-      }
+      // In a response that stopped early, only calls marked completed were finished.
+      const unfinished = stoppedEarly && call.status !== 'completed';
+      contentBlocks.push(
+        toolCallToAnthropic(
+          callId,
+          callName,
+          call.arguments,
+          unfinished ? rejectUnfinishedToolInput : decodeInput,
+        ),
+      );
     }
   }
 
-  if (contentBlocks.length === 0) {
+  if (data.incomplete_details?.reason === 'content_filter') {
     contentBlocks.push({
       type: 'text',
-      text: data.output_text ?? '',
+      text: contentFilterNotice('response', filteredCategories(data.content_filters)),
     });
   }
 
-  if (!stopReason) {
-    stopReason = 'end_turn';
+  if (!contentBlocks.some((block) => block.type === 'text' || block.type === 'tool_use')) {
+    contentBlocks.push({
+      type: 'text',
+      text: data.output_text ?? '',
+    });
   }
 
-  const usage = data.usage ?? {};
-  const inputTokens = usage.input_tokens ?? usage.prompt_tokens ?? 0;
-  const outputTokens = usage.output_tokens ?? usage.completion_tokens ?? 0;
+  const stopReason = sawRefusal
+    ? 'refusal'
+    : mapStopReason(
+        messageStopReason,
+        contentBlocks.some((block) => block.type === 'tool_use'),
+        data.incomplete_details?.reason,
+      );
 
   return {
     id: data.id ?? 'proxy-response',
     type: 'message',
     role: 'assistant',
-    model: data.model ?? requestedModel,
+    model: requestedModel,
     content: contentBlocks,
     stop_reason: stopReason,
     stop_sequence: null,
-    usage: {
-      input_tokens: inputTokens,
-      output_tokens: outputTokens,
-    },
+    usage: azureUsageToAnthropic(data.usage),
   };
 }
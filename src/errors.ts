@@ -0,0 +1,347 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { contentFilterNotice, filteredCategories } from './refusal';
+
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'request_too_large'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error';
+
+export interface AnthropicErrorBody {
+  type: 'error';
+  error: {
+    type: AnthropicErrorType;
+    message: string;
+  };
+}
+
+/**
+ * An error that is reported to the client as-is, in Anthropic's error format.
+ */
+export class AnthropicApiError extends Error {
+  readonly status: number;
+  readonly type: AnthropicErrorType;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    type: AnthropicErrorType,
+    message: string,
+    headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = 'AnthropicApiError';
+    this.status = status;
+    this.type = type;
+    this.headers = headers;
+  }
+
+  toBody(): AnthropicErrorBody {
+    return { type: 'error', error: { type: this.type, message: this.message } };
+  }
+}
+
+/**
+ * The client request cannot be translated; raised by the converters.
+ */
+export class InvalidRequestError extends AnthropicApiError {
+  constructor(message: string) {
+    super(400, 'invalid_request_error', message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * The upstream content filter blocked the prompt. The server answers these with a refusal
+ * message rather than an error.
+ */
+export class ContentFilterError extends AnthropicApiError {
+  readonly categories: string[];
+
+  constructor(message: string, categories: string[]) {
+    super(400, 'invalid_request_error', message);
+    this.name = 'ContentFilterError';
+    this.categories = categories;
+  }
+}
+
+/**
+ * A request waited in the rate limit queue for a backend longer than allowed. Other backends of
+ * the route are tried before it reaches the client as a 429.
+ */
+export class RateLimitQueueTimeoutError extends AnthropicApiError {
+  constructor(backend: string, waitedMs: number) {
+    super(
+      429,
+      'rate_limit_error',
+      `No capacity on ${backend} within ${waitedMs}ms; its tokens or requests per minute are used up`,
+      { 'retry-after': '10' },
+    );
+    this.name = 'RateLimitQueueTimeoutError';
+  }
+}
+
+/**
+ * The upstream failed after a streaming response had already been accepted.
+ */
+export class UpstreamStreamError extends Error {
+  readonly code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'UpstreamStreamError';
+    this.code = code;
+  }
+}
+
+const TIMEOUT_PHASES = {
+  connect: 'connect',
+  first_byte: 'start responding',
+  total: 'finish responding',
+} as const;
+
+/**
+ * A configured upstream timeout fired: the connection, the response headers or the whole
+ * response took longer than allowed.
+ */
+export class UpstreamTimeoutError extends Error {
+  readonly phase: keyof typeof TIMEOUT_PHASES;
+  readonly timeoutMs: number;
+  // Matches Node's socket timeouts, which are retried like this one.
+  readonly code = 'ETIMEDOUT';
+
+  constructor(phase: keyof typeof TIMEOUT_PHASES, timeoutMs: number) {
+    super(`Upstream did not ${TIMEOUT_PHASES[phase]} within ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export async function readStreamBody(stream: Readable): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+interface UpstreamErrorDetails {
+  code?: string;
+  message?: string;
+  innerCode?: string;
+  filterResults?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function extractUpstreamErrorDetails(data: unknown): UpstreamErrorDetails {
+  if (typeof data === 'string') {
+    return { message: data.trim() || undefined };
+  }
+  if (!isRecord(data)) {
+    return {};
+  }
+  // Azure nests the details under `error`; some gateways return them at the top level.
+  const error = isRecord(data.error) ? data.error : data;
+  const code = error.code ?? error.type;
+  const rawInner = error.innererror ?? error.inner_error;
+  const inner = isRecord(rawInner) ? rawInner : undefined;
+  return {
+    code: typeof code === 'string' ? code : code !== undefined ? String(code) : undefined,
+    message: typeof error.message === 'string' ? error.message : undefined,
+    innerCode: typeof inner?.code === 'string' ? inner.code : undefined,
+    filterResults: inner?.content_filter_result ?? inner?.content_filter_results,
+  };
+}
+
+function isContentFilter(details: UpstreamErrorDetails): boolean {
+  return (
+    details.code === 'content_filter' ||
+    details.innerCode === 'ResponsibleAIPolicyViolation' ||
+    /content management policy|content filter/i.test(details.message ?? '')
+  );
+}
+
+function isContextLengthExceeded(details: UpstreamErrorDetails): boolean {
+  return (
+    details.code === 'context_length_exceeded' ||
+    /maximum context length|context window|too many tokens/i.test(details.message ?? '')
+  );
+}
+
+/**
+ * Whether the upstream rejected a request because its `previous_response_id` has expired or
+ * was never stored. A streamed error body is buffered in place so it can still be translated.
+ */
+export async function isPreviousResponseNotFound(error: unknown): Promise<boolean> {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return false;
+  }
+  if (error.response.status !== 400 && error.response.status !== 404) {
+    return false;
+  }
+  if (error.response.data instanceof Readable) {
+    error.response.data = await readStreamBody(error.response.data).catch(() => undefined);
+  }
+  const details = extractUpstreamErrorDetails(error.response.data);
+  return (
+    details.code === 'previous_response_not_found' ||
+    /previous response .*not found/i.test(details.message ?? '')
+  );
+}
+
+function isQuotaExhausted(details: UpstreamErrorDetails): boolean {
+  return details.code === 'insufficient_quota' || /quota/i.test(details.message ?? '');
+}
+
+function forwardedRetryHeaders(headers: unknown): Record<string, string> {
+  const forwarded: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return forwarded;
+  }
+  for (const name of ['retry-after', 'retry-after-ms']) {
+    const value = (headers as Record<string, unknown>)[name];
+    if (typeof value === 'string') {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
+
+function translateUpstreamResponse(
+  status: number,
+  data: unknown,
+  headers: unknown,
+  context: { providerName: string; deployment?: string },
+): AnthropicApiError {
+  const details = extractUpstreamErrorDetails(data);
+  const upstreamMessage = details.message ?? `Unexpected error from ${context.providerName} service`;
+
+  if (isContentFilter(details)) {
+    const categories = filteredCategories(details.filterResults);
+    return new ContentFilterError(
+      contentFilterNotice('prompt', categories, context.providerName),
+      categories,
+    );
+  }
+  if (isContextLengthExceeded(details)) {
+    return new AnthropicApiError(400, 'invalid_request_error', `prompt is too long: ${upstreamMessage}`);
+  }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new AnthropicApiError(400, 'invalid_request_error', upstreamMessage);
+    case 401:
+    case 403:
+      // The proxy's own upstream credentials are wrong; this is not the client's key.
+      return new AnthropicApiError(
+        502,
+        'api_error',
+        `${context.providerName} rejected the proxy's credentials: ${upstreamMessage}`,
+      );
+    case 404:
+      return new AnthropicApiError(
+        404,
+        'not_found_error',
+        context.deployment
+          ? `Deployment '${context.deployment}' was not found on ${context.providerName}: ${upstreamMessage}`
+          : upstreamMessage,
+      );
+    case 408:
+    case 504:
+      return new AnthropicApiError(504, 'api_error', `${context.providerName} timed out: ${upstreamMessage}`);
+    case 413:
+      return new AnthropicApiError(413, 'request_too_large', upstreamMessage);
+    case 429:
+      return new AnthropicApiError(
+        429,
+        'rate_limit_error',
+        isQuotaExhausted(details)
+          ? `${context.providerName} quota exhausted: ${upstreamMessage}`
+          : upstreamMessage,
+        forwardedRetryHeaders(headers),
+      );
+    case 503:
+      return new AnthropicApiError(529, 'overloaded_error', upstreamMessage, forwardedRetryHeaders(headers));
+    default:
+      if (status >= 500) {
+        return new AnthropicApiError(status, 'api_error', upstreamMessage);
+      }
+      return new AnthropicApiError(status, 'invalid_request_error', upstreamMessage);
+  }
+}
+
+function translateStreamError(error: UpstreamStreamError): AnthropicApiError {
+  const details: UpstreamErrorDetails = { code: error.code, message: error.message };
+  if (isContentFilter(details)) {
+    return new ContentFilterError(error.message, []);
+  }
+  if (isContextLengthExceeded(details)) {
+    return new AnthropicApiError(400, 'invalid_request_error', `prompt is too long: ${error.message}`);
+  }
+  if (error.code === 'rate_limit_exceeded') {
+    return new AnthropicApiError(429, 'rate_limit_error', error.message);
+  }
+  if (error.code === 'server_is_overloaded' || error.code === 'slow_down') {
+    return new AnthropicApiError(529, 'overloaded_error', error.message);
+  }
+  return new AnthropicApiError(500, 'api_error', error.message);
+}
+
+/**
+ * Classifies any failure raised while serving a request into the Anthropic error type and
+ * status code Claude Code understands.
+ */
+export async function toAnthropicError(
+  error: unknown,
+  context: { providerName: string; deployment?: string },
+): Promise<AnthropicApiError> {
+  if (error instanceof AnthropicApiError) {
+    return error;
+  }
+  if (error instanceof UpstreamStreamError) {
+    return translateStreamError(error);
+  }
+  if (error instanceof UpstreamTimeoutError) {
+    return new AnthropicApiError(
+      504,
+      'api_error',
+      `${context.providerName} did not ${TIMEOUT_PHASES[error.phase]} within ${error.timeoutMs}ms`,
+    );
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      let data: unknown = error.response.data;
+      if (data instanceof Readable) {
+        data = await readStreamBody(data).catch(() => undefined);
+      }
+      return translateUpstreamResponse(error.response.status, data, error.response.headers, context);
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new AnthropicApiError(504, 'api_error', `${context.providerName} request timed out`);
+    }
+    return new AnthropicApiError(
+      502,
+      'api_error',
+      `Could not reach ${context.providerName}: ${error.code ?? error.message}`,
+    );
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new AnthropicApiError(500, 'api_error', message);
+}
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface LogContext {
+  requestId?: string;
+  /**
+   * Label of the client key the request was authenticated with.
+   */
+  client?: string;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+let installed = false;
+
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+/**
+ * Adds fields to the context of the request being served, e.g. the client once authenticated.
+ */
+export function updateLogContext(fields: Partial<LogContext>): void {
+  const context = logContext.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+/**
+ * Prefixes every console line written while serving a request with the request's client and ID,
+ * so logs from shared helpers (retries, truncation...) can be told apart without threading the
+ * request through them.
+ */
+export function installLogContext(): void {
+  if (installed) {
+    return;
+  }
+  installed = true;
+  for (const method of ['log', 'info', 'warn', 'error'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      const context = logContext.getStore();
+      const prefix = [context?.client, context?.requestId].filter(Boolean).join(' ');
+      if (!prefix) {
+        original(...args);
+      } else {
+        original(`[${prefix}]`, ...args);
+      }
+    };
+  }
+}
+
+/**
+ * Writes one JSON line summarizing a finished request, unprefixed so log collectors can parse it.
+ */
+export function logRequest(fields: Record<string, unknown>): void {
+  process.stdout.write(
+    `${JSON.stringify({ time: new Date().toISOString(), event: 'request', ...fields })}\n`,
+  );
+}
@@ -0,0 +1,200 @@
+type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  inc(labels?: Labels): void;
+  dec(labels?: Labels): void;
+}
+
+export interface Histogram {
+  /** Records a value, in the metric's unit (seconds for durations). */
+  observe(labels: Labels, value: number): void;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+// Latencies of reasoning models range from a few hundred milliseconds to several minutes.
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300, 600];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Series are keyed by their sorted labels, so label order at call sites does not matter.
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function createValueMetric(name: string, help: string, type: 'counter' | 'gauge') {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  const add = (labels: Labels, value: number) => {
+    const key = seriesKey(labels);
+    const entry = series.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    series.set(key, entry);
+  };
+  const metric: Metric = {
+    name,
+    help,
+    type,
+    render: () =>
+      [...series.values()].map((entry) => `${name}${formatLabels(entry.labels)} ${entry.value}`),
+  };
+  return { metric, add };
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Observations per bucket, cumulative like Prometheus' `le` buckets. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, HistogramSeries>();
+  const bucketLine = (entry: HistogramSeries, le: string, count: number) =>
+    `${name}_bucket${formatLabels({ ...entry.labels, le })} ${count}`;
+  const metric: Metric = {
+    name,
+    help,
+    type: 'histogram',
+    render: () =>
+      [...series.values()].flatMap((entry) => [
+        ...buckets.map((bound, index) => bucketLine(entry, String(bound), entry.counts[index])),
+        bucketLine(entry, '+Inf', entry.count),
+        `${name}_sum${formatLabels(entry.labels)} ${entry.sum}`,
+        `${name}_count${formatLabels(entry.labels)} ${entry.count}`,
+      ]),
+  };
+  const histogram: Histogram = {
+    observe(labels, value) {
+      const key = seriesKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      buckets.forEach((bound, index) => {
+        if (value <= bound) {
+          entry.counts[index] += 1;
+        }
+      });
+      entry.sum += value;
+      entry.count += 1;
+    },
+  };
+  return { metric, histogram };
+}
+
+/**
+ * The `route` label of a request: the `[[routes]]` pattern that matched, `default` for requests
+ * sent to the default provider, or `none` when the request was rejected before it was routed.
+ */
+export function routeLabel(route: { match?: string } | undefined): string {
+  if (!route) {
+    return 'none';
+  }
+  return route.match ?? 'default';
+}
+
+/**
+ * The proxy's Prometheus metrics. Labels are limited to configured routes, backends and statuses;
+ * clients and the model names they send are left out to keep the number of series small.
+ */
+export interface ProxyMetrics {
+  /** `/v1/messages` requests by route and response status, rejected API keys included. */
+  requests: Counter;
+  /** Time to serve a `/v1/messages` request, by route. */
+  requestDuration: Histogram;
+  /** Time until the first content block of a streamed response, by route. */
+  timeToFirstToken: Histogram;
+  /** Upstream calls by backend and HTTP status (or error code). */
+  upstreamRequests: Counter;
+  /** Time until the upstream response headers arrived, by backend. */
+  upstreamDuration: Histogram;
+  /**
+   * Upstream calls after the first of a request (failovers, expired stored responses, invalid
+   * tool call arguments), by the backend called.
+   */
+  upstreamRetries: Counter;
+  /** Tokens by route and type: input, cached, output or reasoning. */
+  tokens: Counter;
+  activeStreams: Gauge;
+  /** The metrics in the Prometheus text exposition format. */
+  render(): string;
+}
+
+export function createProxyMetrics(prefix = 'openai_claude'): ProxyMetrics {
+  const metrics: Metric[] = [];
+  const counter = (name: string, help: string): Counter => {
+    const { metric, add } = createValueMetric(`${prefix}_${name}`, help, 'counter');
+    metrics.push(metric);
+    return { inc: (labels = {}, value = 1) => add(labels, value) };
+  };
+  const gauge = (name: string, help: string): Gauge => {
+    const { metric, add } = createValueMetric(`${prefix}_${name}`, help, 'gauge');
+    metrics.push(metric);
+    return { inc: (labels = {}) => add(labels, 1), dec: (labels = {}) => add(labels, -1) };
+  };
+  const histogram = (name: string, help: string): Histogram => {
+    const created = createHistogram(`${prefix}_${name}`, help, DURATION_BUCKETS);
+    metrics.push(created.metric);
+    return created.histogram;
+  };
+
+  const activeStreams = gauge('active_streams', 'Streaming responses currently open.');
+  // Exported as 0 before the first stream, so the series exists from the first scrape.
+  activeStreams.inc();
+  activeStreams.dec();
+
+  return {
+    requests: counter('requests_total', 'Messages API requests by route and response status.'),
+    requestDuration: histogram(
+      'request_duration_seconds',
+      'Time to serve a Messages API request, streaming included.',
+    ),
+    timeToFirstToken: histogram(
+      'time_to_first_token_seconds',
+      'Time until the first content block of a streamed response.',
+    ),
+    upstreamRequests: counter(
+      'upstream_requests_total',
+      'Upstream calls by backend and HTTP status or error code.',
+    ),
+    upstreamDuration: histogram(
+      'upstream_duration_seconds',
+      'Time until the upstream response headers arrived.',
+    ),
+    upstreamRetries: counter(
+      'upstream_retries_total',
+      'Upstream calls after the first of a request: failovers and resends.',
+    ),
+    tokens: counter('tokens_total', 'Tokens by route and type (input, cached, output, reasoning).'),
+    activeStreams,
+    render: () =>
+      metrics
+        .flatMap((metric) => [
+          `# HELP ${metric.name} ${metric.help}`,
+          `# TYPE ${metric.name} ${metric.type}`,
+          ...metric.render(),
+        ])
+        .join('\n') + '\n',
+  };
+}
@@ -0,0 +1,320 @@
+import { RateLimitQueueTimeoutError } from './errors';
+import { modelMatches } from './routing';
+
+export interface DeploymentRateLimits {
+  tokensPerMinute?: number;
+  requestsPerMinute?: number;
+}
+
+export interface RateLimitConfig {
+  /** Limits by deployment name glob; the first match wins. */
+  deployments: Array<{ match: string } & DeploymentRateLimits>;
+  /**
+   * Requested model globs served after interactive requests when a deployment is saturated.
+   */
+  backgroundModels: string[];
+  /** How long a request may wait for capacity before it fails over or is rejected. */
+  maxQueueMs: number;
+}
+
+// Claude Code runs its title, summary and sub-agent calls on the haiku model.
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  deployments: [],
+  backgroundModels: ['*haiku*'],
+  maxQueueMs: 120_000,
+};
+
+function parseLimit(raw: Record<string, unknown>, field: string, path: string): number | undefined {
+  const value = raw[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${path}.${field} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Parses the `[rate_limits]` table: `background_models`, `max_queue_ms` and the
+ * `[rate_limits.deployments."<glob>"]` tables (`tokens_per_minute`, `requests_per_minute`).
+ */
+export function parseRateLimitConfig(raw: unknown): RateLimitConfig {
+  if (raw === undefined) {
+    return DEFAULT_RATE_LIMIT_CONFIG;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('rate_limits must be a table');
+  }
+  const table = raw as Record<string, unknown>;
+
+  const backgroundModels = table.background_models ?? DEFAULT_RATE_LIMIT_CONFIG.backgroundModels;
+  if (
+    !Array.isArray(backgroundModels) ||
+    backgroundModels.some((model) => typeof model !== 'string')
+  ) {
+    throw new Error('rate_limits.background_models must be an array of strings');
+  }
+  const maxQueueMs = table.max_queue_ms ?? DEFAULT_RATE_LIMIT_CONFIG.maxQueueMs;
+  if (typeof maxQueueMs !== 'number' || !Number.isFinite(maxQueueMs) || maxQueueMs < 0) {
+    throw new Error('rate_limits.max_queue_ms must be a number >= 0');
+  }
+
+  const rawDeployments = table.deployments ?? {};
+  if (!rawDeployments || typeof rawDeployments !== 'object' || Array.isArray(rawDeployments)) {
+    throw new Error('rate_limits.deployments must be a table of deployment names to limits');
+  }
+  const deployments = Object.entries(rawDeployments as Record<string, unknown>).map(
+    ([match, value]) => {
+      const path = `rate_limits.deployments.${match}`;
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${path} must be a table`);
+      }
+      const limits = value as Record<string, unknown>;
+      return {
+        match,
+        tokensPerMinute: parseLimit(limits, 'tokens_per_minute', path),
+        requestsPerMinute: parseLimit(limits, 'requests_per_minute', path),
+      };
+    },
+  );
+
+  return { deployments, backgroundModels: backgroundModels as string[], maxQueueMs };
+}
+
+export type RequestPriority = 'interactive' | 'background';
+
+export function requestPriority(model: string, config: RateLimitConfig): RequestPriority {
+  return config.backgroundModels.some((pattern) => modelMatches(pattern, model))
+    ? 'background'
+    : 'interactive';
+}
+
+export interface RateLimitRequest {
+  /** The backend's queue, usually `provider/deployment`. */
+  backend: string;
+  deployment: string;
+  priority: RequestPriority;
+  /** Requests are interleaved across clients, so one busy client cannot starve the others. */
+  client?: string;
+  /**
+   * The tokens the upstream will count against its per-minute limit; only called when the
+   * backend has a token limit.
+   */
+  estimateTokens(): number;
+  /** Abandons the wait, rejecting with the signal's reason. */
+  signal: AbortSignal;
+}
+
+export interface RateLimiter {
+  /**
+   * Resolves once the backend has capacity for the request, after every request queued ahead of
+   * it. Rejects with a `RateLimitQueueTimeoutError` after `maxQueueMs`.
+   */
+  acquire(request: RateLimitRequest): Promise<void>;
+  /**
+   * Learns a backend's limits and current headroom from its `x-ratelimit-*` response headers.
+   */
+  observe(backend: string, deployment: string, headers: unknown): void;
+}
+
+/**
+ * A per-minute limit, refilled continuously like the upstream's own token bucket.
+ */
+interface Bucket {
+  capacity: number;
+  level: number;
+  updatedAt: number;
+  /** Learned from response headers rather than configured. */
+  learned: boolean;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  client: string;
+  tokens: number;
+  sequence: number;
+  resolve(): void;
+}
+
+interface BackendState {
+  tokens?: Bucket;
+  requests?: Bucket;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+  /** Order in which clients were last let through, for round-robin between them. */
+  lastServed: Map<string, number>;
+}
+
+function createBucket(capacity: number, learned: boolean, now: number): Bucket {
+  return { capacity, level: capacity, updatedAt: now, learned };
+}
+
+function refill(bucket: Bucket, now: number): void {
+  bucket.level = Math.min(
+    bucket.capacity,
+    bucket.level + ((now - bucket.updatedAt) * bucket.capacity) / 60_000,
+  );
+  bucket.updatedAt = now;
+}
+
+// Milliseconds until the bucket holds `amount`.
+function waitFor(bucket: Bucket | undefined, amount: number): number {
+  if (!bucket || bucket.level >= amount) {
+    return 0;
+  }
+  return Math.ceil(((amount - bucket.level) * 60_000) / bucket.capacity);
+}
+
+function headerNumber(headers: unknown, name: string): number | undefined {
+  const value = Number((headers as Record<string, unknown> | undefined)?.[name]);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const backends = new Map<string, BackendState>();
+  let sequence = 0;
+
+  const stateFor = (backend: string, deployment: string) => {
+    let state = backends.get(backend);
+    if (!state) {
+      const now = Date.now();
+      const limits = config.deployments.find((entry) => modelMatches(entry.match, deployment));
+      state = {
+        tokens: limits?.tokensPerMinute
+          ? createBucket(limits.tokensPerMinute, false, now)
+          : undefined,
+        requests: limits?.requestsPerMinute
+          ? createBucket(limits.requestsPerMinute, false, now)
+          : undefined,
+        queue: [],
+        lastServed: new Map(),
+      };
+      backends.set(backend, state);
+    }
+    return state;
+  };
+
+  // Highest priority first; among equals, the client let through longest ago, then arrival order.
+  const nextWaiter = (state: BackendState) => {
+    const rank = (waiter: Waiter) => (waiter.priority === 'interactive' ? 0 : 1);
+    const lastServed = (waiter: Waiter) => state.lastServed.get(waiter.client) ?? 0;
+    const compare = (a: Waiter, b: Waiter) =>
+      rank(a) - rank(b) || lastServed(a) - lastServed(b) || a.sequence - b.sequence;
+    return state.queue.reduce((best, waiter) => (compare(waiter, best) < 0 ? waiter : best));
+  };
+
+  const drain = (backend: string, state: BackendState) => {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    while (state.queue.length > 0) {
+      const now = Date.now();
+      for (const bucket of [state.tokens, state.requests]) {
+        if (bucket) {
+          refill(bucket, now);
+        }
+      }
+      const waiter = nextWaiter(state);
+      const wait = Math.max(waitFor(state.tokens, waiter.tokens), waitFor(state.requests, 1));
+      if (wait > 0) {
+        state.timer = setTimeout(() => drain(backend, state), wait);
+        return;
+      }
+      if (state.tokens) {
+        state.tokens.level -= waiter.tokens;
+      }
+      if (state.requests) {
+        state.requests.level -= 1;
+      }
+      state.queue.splice(state.queue.indexOf(waiter), 1);
+      state.lastServed.set(waiter.client, (sequence += 1));
+      waiter.resolve();
+    }
+  };
+
+  return {
+    acquire(request) {
+      const state = stateFor(request.backend, request.deployment);
+      if (!state.tokens && !state.requests) {
+        return Promise.resolve();
+      }
+      // A request larger than the whole bucket would never fit; it waits for a full one instead.
+      const tokens = state.tokens ? Math.min(request.estimateTokens(), state.tokens.capacity) : 0;
+      const queuedAt = Date.now();
+
+      return new Promise<void>((resolve, reject) => {
+        const leave = () => {
+          clearTimeout(timeout);
+          request.signal.removeEventListener('abort', onAbort);
+          const index = state.queue.indexOf(waiter);
+          if (index !== -1) {
+            state.queue.splice(index, 1);
+          }
+        };
+        const onAbort = () => {
+          leave();
+          reject(request.signal.reason);
+          drain(request.backend, state);
+        };
+        const timeout = setTimeout(() => {
+          leave();
+          reject(new RateLimitQueueTimeoutError(request.backend, config.maxQueueMs));
+          drain(request.backend, state);
+        }, config.maxQueueMs);
+        const waiter: Waiter = {
+          priority: request.priority,
+          client: request.client ?? '',
+          tokens,
+          sequence: (sequence += 1),
+          resolve: () => {
+            leave();
+            const waitedMs = Date.now() - queuedAt;
+            if (waitedMs >= 1000) {
+              console.log(`Waited ${waitedMs}ms for capacity on ${request.backend}`);
+            }
+            resolve();
+          },
+        };
+
+        if (request.signal.aborted) {
+          clearTimeout(timeout);
+          reject(request.signal.reason);
+          return;
+        }
+        request.signal.addEventListener('abort', onAbort, { once: true });
+        state.queue.push(waiter);
+        drain(request.backend, state);
+      });
+    },
+
+    observe(backend, deployment, headers) {
+      const state = stateFor(backend, deployment);
+      const now = Date.now();
+      for (const kind of ['tokens', 'requests'] as const) {
+        const remaining = headerNumber(headers, `x-ratelimit-remaining-${kind}`);
+        if (remaining === undefined) {
+          continue;
+        }
+        const limit = headerNumber(headers, `x-ratelimit-limit-${kind}`);
+        let bucket = state[kind];
+        if (!bucket && limit === undefined && remaining === 0) {
+          // Nothing to size a bucket from; the retry policy handles the 429s that follow.
+          continue;
+        }
+        if (!bucket) {
+          // Azure only reports what is left; the most ever left is the best guess at the limit.
+          bucket = createBucket(Math.max(limit ?? remaining, 1), true, now);
+          state[kind] = bucket;
+        } else if (bucket.learned) {
+          bucket.capacity = Math.max(limit ?? Math.max(bucket.capacity, remaining), 1);
+        }
+        refill(bucket, now);
+        // Responses to earlier requests arrive out of order, so the lowest figure is the safest.
+        bucket.level = Math.min(bucket.level, remaining);
+      }
+      if (state.queue.length > 0) {
+        drain(backend, state);
+      }
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+export interface RedactionConfig {
+  /** Patterns whose matches are masked, the built-in ones included. */
+  secretPatterns: RegExp[];
+  /** Longer strings are cut to this many characters. */
+  maxStringLength: number;
+  /**
+   * File that receives the full, unredacted payloads, when configured. Relative paths are
+   * resolved by the config loader.
+   */
+  payloadLog?: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Assignments keep the variable name, so the log still shows which setting was present.
+const SECRET_NAME = '[A-Z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIALS?)[A-Z0-9_]*';
+const SECRET_ASSIGNMENT = new RegExp(`^(\\s*(?:export\\s+)?${SECRET_NAME}\\s*[=:]\\s*)\\S.*$`, 'gm');
+
+const BUILT_IN_SECRET_PATTERNS = [
+  // PEM private keys.
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  // OpenAI and Anthropic keys.
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  // GitHub, Slack, AWS and Google credentials.
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{20,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{20,}/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  // JSON web tokens.
+  /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g,
+];
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  secretPatterns: BUILT_IN_SECRET_PATTERNS,
+  maxStringLength: 2000,
+};
+
+/**
+ * Parses the `[debug]` table: `secret_patterns` (extra regular expressions to mask),
+ * `max_string_length` and `payload_log`.
+ */
+export function parseRedactionConfig(raw: unknown): RedactionConfig {
+  if (raw === undefined) {
+    return DEFAULT_REDACTION_CONFIG;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('debug must be a table');
+  }
+  const table = raw as Record<string, unknown>;
+
+  const patterns = table.secret_patterns ?? [];
+  if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string')) {
+    throw new Error('debug.secret_patterns must be an array of regular expressions');
+  }
+  const secretPatterns = (patterns as string[]).map((pattern, index) => {
+    try {
+      return new RegExp(pattern, 'g');
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `debug.secret_patterns[${index}] is not a valid regular expression: ${message}`,
+      );
+    }
+  });
+
+  const maxStringLength = table.max_string_length ?? DEFAULT_REDACTION_CONFIG.maxStringLength;
+  if (
+    typeof maxStringLength !== 'number' ||
+    !Number.isInteger(maxStringLength) ||
+    maxStringLength < 1
+  ) {
+    throw new Error('debug.max_string_length must be a positive integer');
+  }
+  const payloadLog = table.payload_log;
+  if (payloadLog !== undefined && (typeof payloadLog !== 'string' || !payloadLog)) {
+    throw new Error('debug.payload_log must be a non-empty string');
+  }
+
+  return {
+    secretPatterns: [...BUILT_IN_SECRET_PATTERNS, ...secretPatterns],
+    maxStringLength,
+    payloadLog,
+  };
+}
+
+const DATA_URL = /^data:([^;,]*)(?:;[^,]*)?;base64,/;
+const BASE64 = /^[A-Za-z0-9+/_-]+={0,2}$/;
+// Shorter strings are left alone; they could just as well be identifiers or words.
+const MIN_BASE64_LENGTH = 256;
+
+function describeBinary(kind: string, data: string): string {
+  const bytes = Math.floor((data.replace(/=+$/, '').length * 3) / 4);
+  const digest = crypto.createHash('sha256').update(data).digest('hex').slice(0, 16);
+  return `[${kind}, ${bytes} bytes, sha256:${digest}]`;
+}
+
+function redactString(value: string, config: RedactionConfig): string {
+  const dataUrl = DATA_URL.exec(value);
+  if (dataUrl) {
+    return describeBinary(`${dataUrl[1] || 'data'} base64`, value.slice(dataUrl[0].length));
+  }
+  if (value.length >= MIN_BASE64_LENGTH && BASE64.test(value.replace(/\s+/g, ''))) {
+    return describeBinary('base64', value.replace(/\s+/g, ''));
+  }
+
+  let redacted = value.replace(SECRET_ASSIGNMENT, `$1${REDACTED}`);
+  for (const pattern of config.secretPatterns) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  if (redacted.length > config.maxStringLength) {
+    const omitted = redacted.length - config.maxStringLength;
+    redacted = `${redacted.slice(0, config.maxStringLength)}... [${omitted} more characters]`;
+  }
+  return redacted;
+}
+
+/**
+ * A copy of `value` safe to print: binary data is replaced by its size and hash, secrets are
+ * masked and long strings are cut.
+ */
+export function redactPayload(value: unknown, config: RedactionConfig): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, config);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactPayload(item, config));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactPayload(item, config)]),
+    );
+  }
+  return value;
+}
+
+export interface PayloadLog {
+  write(requestId: string | undefined, kind: string, payload: unknown): void;
+}
+
+/**
+ * Appends full payloads as JSON lines to a file only the current user can read.
+ */
+export function createPayloadLog(filePath: string): PayloadLog {
+  // The mode only applies to new files, so an existing file is tightened as well.
+  fs.closeSync(fs.openSync(filePath, 'a', 0o600));
+  fs.chmodSync(filePath, 0o600);
+
+  // Appends are chained so entries land in the order they were logged.
+  let pendingWrite = Promise.resolve();
+
+  return {
+    write(requestId, kind, payload) {
+      const line = `${JSON.stringify({
+        time: new Date().toISOString(),
+        request_id: requestId,
+        kind,
+        payload,
+      })}\n`;
+      pendingWrite = pendingWrite
+        .then(() => fs.promises.appendFile(filePath, line, { mode: 0o600 }))
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Could not write payload to ${filePath}: ${message}`);
+        });
+    },
+  };
+}
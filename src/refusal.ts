@@ -0,0 +1,86 @@
+import type { AnthropicResponse, AnthropicUsage } from './converters';
+
+/**
+ * Azure reports one entry per filter category (`hate`, `violence`, `jailbreak`,
+ * `protected_material_code`...), either as a severity (`filtered`, `severity`) or as a detection
+ * (`filtered`, `detected`).
+ */
+export interface ContentFilterCategoryResult {
+  filtered?: boolean;
+  detected?: boolean;
+  severity?: string;
+}
+
+function describeCategory(name: string, result: ContentFilterCategoryResult): string {
+  return result.severity && result.severity !== 'safe' ? `${name}: ${result.severity}` : name;
+}
+
+function collectFilteredCategories(value: unknown, categories: Set<string>): void {
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      collectFilteredCategories(entry, categories);
+    }
+    return;
+  }
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  // Wrappers: chat `prompt_filter_results[]`, error `innererror.content_filter_result`, and
+  // Responses `content_filters[]`.
+  for (const key of ['content_filter_results', 'content_filter_result', 'content_filters']) {
+    if (key in record) {
+      collectFilteredCategories(record[key], categories);
+    }
+  }
+  for (const [name, result] of Object.entries(record)) {
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+      const category = result as ContentFilterCategoryResult;
+      if (category.filtered === true) {
+        categories.add(describeCategory(name, category));
+      }
+    }
+  }
+}
+
+/**
+ * Lists the content filter categories that blocked a prompt or completion, e.g.
+ * `['hate: high', 'jailbreak']`, from any of the shapes Azure reports them in.
+ */
+export function filteredCategories(results: unknown): string[] {
+  const categories = new Set<string>();
+  collectFilteredCategories(results, categories);
+  return [...categories];
+}
+
+export function contentFilterNotice(
+  source: 'prompt' | 'response',
+  categories: string[],
+  providerName = 'Azure OpenAI',
+): string {
+  const subject = source === 'prompt' ? 'The request was blocked' : 'The response was stopped';
+  const detail = categories.length > 0 ? ` (${categories.join(', ')})` : '';
+  return `${subject} by the ${providerName} content filter${detail}.`;
+}
+
+/**
+ * The message returned in place of an error when the upstream refuses to answer, matching how
+ * Anthropic reports refusals: a successful response with `stop_reason: "refusal"`.
+ */
+export function refusalResponse(
+  id: string,
+  model: string,
+  text: string,
+  usage: AnthropicUsage,
+): AnthropicResponse {
+  return {
+    id,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content: [{ type: 'text', text }],
+    stop_reason: 'refusal',
+    stop_sequence: null,
+    usage,
+  };
+}
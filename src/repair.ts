@@ -0,0 +1,89 @@
+const CODE_FENCE = /^\s*```[\w-]*\s*\n?([\s\S]*?)\n?\s*```\s*$/;
+
+const ESCAPED_CONTROL_CHARACTERS: Record<string, string> = {
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+};
+
+// Literals that cannot grow into something else; a trailing number could be cut mid-digit.
+const COMPLETE_LITERAL = /(?:^|[\s:,[])(?:true|false|null)$/;
+
+/**
+ * Fixes the JSON mistakes models make in function call arguments: code fences or prose around
+ * the object, raw newlines and tabs inside strings, trailing commas, text after the first
+ * complete value, and closing brackets missing after the last value. Output cut off anywhere
+ * else (inside a string, after a key or a comma) is left invalid rather than guessed at. The
+ * result is not guaranteed to parse.
+ */
+export function repairJson(raw: string): string {
+  const fenced = raw.match(CODE_FENCE);
+  let text = (fenced ? fenced[1] : raw).trim();
+  const firstBracket = text.search(/[{[]/);
+  if (firstBracket > 0) {
+    // Prose before the arguments ("Here are the arguments: {...}").
+    text = text.slice(firstBracket);
+  }
+
+  let output = '';
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Whether the string being read, or the last one read, is an object key.
+  let stringIsKey = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        output += char;
+      } else if (char === '\\') {
+        escaped = true;
+        output += char;
+      } else if (char === '"') {
+        inString = false;
+        output += char;
+      } else {
+        const code = char.charCodeAt(0);
+        output += ESCAPED_CONTROL_CHARACTERS[char] ??
+          (code < 0x20 ? `\\u${code.toString(16).padStart(4, '0')}` : char);
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringIsKey = closers[closers.length - 1] === '}' && /[{,]$/.test(output.trimEnd());
+      output += char;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+      output += char;
+    } else if (char === '}' || char === ']') {
+      if (closers.length === 0) {
+        break;
+      }
+      output = output.trimEnd().replace(/,$/, '');
+      output += closers.pop();
+      if (closers.length === 0) {
+        // Anything after the first complete value (duplicated objects, prose) is dropped.
+        break;
+      }
+    } else {
+      output += char;
+    }
+  }
+
+  if (inString || closers.length === 0) {
+    return output;
+  }
+  const tail = output.trimEnd();
+  const endsWithValue =
+    /[}\]]$/.test(tail) || (tail.endsWith('"') && !stringIsKey) || COMPLETE_LITERAL.test(tail);
+  if (endsWithValue) {
+    output = tail;
+    while (closers.length > 0) {
+      output += closers.pop();
+    }
+  }
+  return output;
+}
@@ -0,0 +1,212 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import type { ProviderConfig } from './config';
+import { RateLimitQueueTimeoutError, UpstreamTimeoutError } from './errors';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 20_000,
+};
+
+export interface UpstreamBackend {
+  provider: ProviderConfig;
+  deployment: string;
+}
+
+export function describeBackend(backend: UpstreamBackend): string {
+  return `${backend.provider.id}/${backend.deployment}`;
+}
+
+export function parseRetryPolicy(raw: unknown): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  if (raw === undefined) {
+    return policy;
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('retry must be a table');
+  }
+  const fields: Array<[keyof RetryPolicy, string, number]> = [
+    ['maxAttempts', 'max_attempts', 1],
+    ['initialDelayMs', 'initial_delay_ms', 0],
+    ['maxDelayMs', 'max_delay_ms', 0],
+  ];
+  for (const [key, field, minimum] of fields) {
+    const value = (raw as Record<string, unknown>)[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < minimum) {
+      throw new Error(`retry.${field} must be a number >= ${minimum}`);
+    }
+    policy[key] = value;
+  }
+  return policy;
+}
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+// Errors tied to a single backend (bad key, missing deployment) are worth trying elsewhere, but
+// not again on the same backend.
+const FAILOVER_STATUS_CODES = new Set([401, 403, 404]);
+
+type FailureKind = 'retry' | 'failover' | 'fatal';
+
+function classifyFailure(error: unknown): FailureKind {
+  if (error instanceof UpstreamTimeoutError) {
+    return 'retry';
+  }
+  if (error instanceof RateLimitQueueTimeoutError) {
+    return 'failover';
+  }
+  if (!axios.isAxiosError(error)) {
+    return 'fatal';
+  }
+  const status = error.response?.status;
+  if (status === undefined) {
+    // No response at all: connection refused/reset, DNS failure or timeout.
+    return error.code === 'ERR_CANCELED' ? 'fatal' : 'retry';
+  }
+  if (RETRYABLE_STATUS_CODES.has(status)) {
+    return 'retry';
+  }
+  if (FAILOVER_STATUS_CODES.has(status)) {
+    return 'failover';
+  }
+  return 'fatal';
+}
+
+function headerValue(error: unknown, name: string): string | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+  const value = error.response?.headers?.[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * How long the upstream asked us to wait, from `retry-after-ms` or `retry-after` (seconds or an
+ * HTTP date).
+ */
+function requestedRetryDelayMs(error: unknown): number | undefined {
+  const retryAfterMs = Number(headerValue(error, 'retry-after-ms'));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+  const retryAfter = headerValue(error, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+function backoffDelayMs(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  // Full jitter keeps parallel sub-agent requests from retrying in lockstep.
+  return Math.round(Math.random() * ceiling);
+}
+
+function discardResponseBody(error: unknown): void {
+  if (axios.isAxiosError(error) && error.response?.data instanceof Readable) {
+    error.response.data.destroy();
+  }
+}
+
+/**
+ * Waits `ms` milliseconds, or until `signal` is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Runs `send` against each backend in order, retrying retryable failures with exponential backoff
+ * and moving on to the next backend once a backend's attempts are used up, it fails with a
+ * backend-specific error, or it asks us to wait longer than the policy allows. Aborting `signal`
+ * (the client disconnecting) cuts a backoff short and rethrows the failure that caused it.
+ */
+export async function sendWithFailover<T>(
+  backends: UpstreamBackend[],
+  policy: RetryPolicy,
+  send: (backend: UpstreamBackend) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<{ result: T; backend: UpstreamBackend }> {
+  let lastError: unknown = new Error('No upstream backend configured');
+
+  for (let backendIndex = 0; backendIndex < backends.length; backendIndex += 1) {
+    const backend = backends[backendIndex];
+    const hasNextBackend = backendIndex < backends.length - 1;
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt += 1) {
+      try {
+        const result = await send(backend);
+        if (attempt > 1 || backendIndex > 0) {
+          console.log(`Request served by ${describeBackend(backend)} (attempt ${attempt})`);
+        }
+        return { result, backend };
+      } catch (error) {
+        lastError = error;
+        const kind = classifyFailure(error);
+        if (kind === 'fatal') {
+          throw error;
+        }
+        const status = axios.isAxiosError(error)
+          ? error.response?.status ?? error.code
+          : (error as UpstreamTimeoutError).message;
+        if (kind === 'failover' || attempt === policy.maxAttempts) {
+          if (hasNextBackend) {
+            discardResponseBody(error);
+            console.warn(`Upstream ${describeBackend(backend)} failed (${status}); failing over`);
+          }
+          break;
+        }
+
+        const requested = requestedRetryDelayMs(error);
+        if (requested !== undefined && requested > policy.maxDelayMs && hasNextBackend) {
+          discardResponseBody(error);
+          console.warn(
+            `Upstream ${describeBackend(backend)} asked to wait ${requested}ms; failing over`,
+          );
+          break;
+        }
+
+        discardResponseBody(error);
+        const delay = Math.min(requested ?? backoffDelayMs(attempt, policy), policy.maxDelayMs);
+        console.warn(
+          `Upstream ${describeBackend(backend)} failed (${status}); retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`,
+        );
+        await sleep(delay, signal);
+        if (signal?.aborted) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,176 @@
+import type { ProviderConfig } from './config';
+import { InvalidRequestError } from './errors';
+import type { UpstreamBackend } from './retry';
+import { parseUpstreamTimeouts, UpstreamTimeouts } from './timeouts';
+
+export interface ModelRouteFallback {
+  provider: ProviderConfig;
+  deployment?: string;
+}
+
+export interface ModelRoute {
+  match: string;
+  provider: ProviderConfig;
+  deployment?: string;
+  reasoningEffort?: string;
+  /**
+   * Overrides of the top-level `[timeouts]` for this route.
+   */
+  timeouts: Partial<UpstreamTimeouts>;
+  fallbacks: ModelRouteFallback[];
+}
+
+export interface ResolvedModelRoute {
+  /**
+   * The `match` pattern of the route used, if any.
+   */
+  match?: string;
+  provider: ProviderConfig;
+  deployment: string;
+  reasoningEffort?: string;
+  timeouts: UpstreamTimeouts;
+  /**
+   * Primary backend first, then the route's fallbacks in order.
+   */
+  backends: UpstreamBackend[];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function modelMatches(pattern: string, model: string): boolean {
+  return globToRegExp(pattern).test(model);
+}
+
+function resolveRouteProvider(
+  providerId: unknown,
+  providers: Record<string, ProviderConfig>,
+  defaultProvider: ProviderConfig,
+  path: string,
+): ProviderConfig {
+  const provider = providerId === undefined ? defaultProvider : providers[String(providerId)];
+  if (!provider) {
+    throw new Error(`${path}.provider '${String(providerId)}' is not a configured model provider`);
+  }
+  if (provider.authStyle !== 'none' && !provider.apiKey) {
+    throw new Error(
+      `${path} uses provider '${provider.id}' but its API key (${provider.envKey ?? 'env_key unset'}) is not set`,
+    );
+  }
+  return provider;
+}
+
+/**
+ * Parses the `[[routes]]` array of tables. Routes are tried in order, so the catch-all `*` entry
+ * belongs last.
+ */
+export function parseModelRoutes(
+  raw: unknown,
+  providers: Record<string, ProviderConfig>,
+  defaultProvider: ProviderConfig,
+): ModelRoute[] {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error('routes must be an array of tables ([[routes]])');
+  }
+
+  return raw.map((rawEntry: unknown, index: number) => {
+    if (!rawEntry || typeof rawEntry !== 'object' || Array.isArray(rawEntry)) {
+      throw new Error(`routes[${index}] must be a table`);
+    }
+    const entry = rawEntry as Record<string, unknown>;
+    const match = entry.match;
+    if (typeof match !== 'string' || match.length === 0) {
+      throw new Error(`routes[${index}].match must be a non-empty string`);
+    }
+
+    const provider = resolveRouteProvider(entry.provider, providers, defaultProvider, `routes[${index}]`);
+
+    const deployment = entry.deployment ?? entry.model;
+    if (deployment !== undefined && typeof deployment !== 'string') {
+      throw new Error(`routes[${index}].deployment must be a string`);
+    }
+    const reasoningEffort = entry.reasoning_effort;
+    if (reasoningEffort !== undefined && typeof reasoningEffort !== 'string') {
+      throw new Error(`routes[${index}].reasoning_effort must be a string`);
+    }
+
+    const rawFallbacks = entry.fallbacks ?? [];
+    if (!Array.isArray(rawFallbacks)) {
+      throw new Error(`routes[${index}].fallbacks must be an array`);
+    }
+    const fallbacks = rawFallbacks.map((rawFallback: unknown, fallbackIndex: number) => {
+      const path = `routes[${index}].fallbacks[${fallbackIndex}]`;
+      if (!rawFallback || typeof rawFallback !== 'object' || Array.isArray(rawFallback)) {
+        throw new Error(`${path} must be a table`);
+      }
+      const fallback = rawFallback as Record<string, unknown>;
+      const fallbackDeployment = fallback.deployment;
+      if (fallbackDeployment !== undefined && typeof fallbackDeployment !== 'string') {
+        throw new Error(`${path}.deployment must be a string`);
+      }
+      return {
+        provider: resolveRouteProvider(fallback.provider, providers, provider, path),
+        deployment: fallbackDeployment,
+      };
+    });
+
+    const timeouts = parseUpstreamTimeouts(entry.timeouts, `routes[${index}].timeouts`);
+
+    return { match, provider, deployment, reasoningEffort, timeouts, fallbacks };
+  });
+}
+
+/**
+ * Picks the provider and deployment serving a requested (Anthropic) model name. Without a
+ * matching route the requested name is forwarded verbatim to the default provider, falling back
+ * to the configured model when the request names none.
+ */
+export function resolveModelRoute(
+  routes: ModelRoute[],
+  requestedModel: string | undefined,
+  defaults: {
+    provider: ProviderConfig;
+    model?: string;
+    reasoningEffort?: string;
+    timeouts: UpstreamTimeouts;
+  },
+): ResolvedModelRoute {
+  const name = typeof requestedModel === 'string' ? requestedModel.trim() : '';
+  const route = routes.find((candidate) => modelMatches(candidate.match, name));
+
+  const deployment = route ? route.deployment ?? defaults.model : name || defaults.model;
+  if (!deployment) {
+    throw new InvalidRequestError('No model specified in request or config');
+  }
+
+  const provider = route?.provider ?? defaults.provider;
+  const fallbacks = (route?.fallbacks ?? []).map((fallback) => ({
+    provider: fallback.provider,
+    deployment: fallback.deployment ?? deployment,
+  }));
+
+  return {
+    match: route?.match,
+    provider,
+    deployment,
+    reasoningEffort: route?.reasoningEffort ?? defaults.reasoningEffort,
+    timeouts: { ...defaults.timeouts, ...route?.timeouts },
+    backends: [{ provider, deployment }, ...fallbacks],
+  };
+}
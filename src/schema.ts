@@ -0,0 +1,492 @@
+type JsonSchema = Record<string, unknown>;
+
+export interface SanitizedToolSchema {
+  schema: JsonSchema;
+  /**
+   * Whether the schema satisfies OpenAI's strict function calling rules; only set when strict
+   * mode was requested.
+   */
+  strict: boolean;
+  /**
+   * Whether a non-object root was wrapped as the `value` property of an object; the model then
+   * sends the tool's input in that property.
+   */
+  wrapped: boolean;
+  /**
+   * Human-readable notes on every change made, for debug logging.
+   */
+  diagnostics: string[];
+}
+
+// Keywords Azure either rejects or that only make sense inside the original document.
+const STRIPPED_KEYWORDS = new Set([
+  '$schema',
+  '$id',
+  '$anchor',
+  '$comment',
+  '$dynamicAnchor',
+  '$dynamicRef',
+  '$vocabulary',
+  'contentEncoding',
+  'contentMediaType',
+  'contentSchema',
+]);
+
+const DEFINITION_KEYWORDS = new Set(['$defs', 'definitions']);
+
+// Strict structured outputs only accept a subset of JSON Schema.
+const STRICT_UNSUPPORTED_KEYWORDS = new Set([
+  'default',
+  'examples',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'contains',
+  'minProperties',
+  'maxProperties',
+  'patternProperties',
+  'propertyNames',
+  'unevaluatedProperties',
+  'dependentRequired',
+  'dependentSchemas',
+  'if',
+  'then',
+  'else',
+  'not',
+]);
+
+const SCHEMA_KEYWORDS = new Set(['items', 'additionalProperties', 'not', 'contains', 'if', 'then', 'else']);
+const SCHEMA_LIST_KEYWORDS = new Set(['anyOf', 'oneOf', 'allOf', 'prefixItems']);
+const SCHEMA_MAP_KEYWORDS = new Set(['properties', 'patternProperties', 'dependentSchemas']);
+
+// Recursive schemas are cut off at this depth when dereferenced.
+const MAX_REF_DEPTH = 8;
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function pathLabel(path: string[]): string {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+function resolvePointer(root: JsonSchema, ref: string): unknown {
+  if (ref === '#') {
+    return root;
+  }
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const rawSegment of ref.slice(2).split('/')) {
+    const segment = decodeURIComponent(rawSegment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!target || typeof target !== 'object') {
+      return undefined;
+    }
+    target = (target as Record<string, unknown>)[segment];
+  }
+  return target;
+}
+
+interface SanitizeContext {
+  root: JsonSchema;
+  refStack: string[];
+  diagnostics: string[];
+}
+
+function sanitizeNode(node: unknown, path: string[], context: SanitizeContext): JsonSchema | boolean {
+  // `true` and `false` are valid schemas that accept everything and nothing.
+  if (typeof node === 'boolean') {
+    return node;
+  }
+  if (node === undefined) {
+    return {};
+  }
+  if (!isSchemaObject(node)) {
+    context.diagnostics.push(`${pathLabel(path)}: replaced invalid schema ${JSON.stringify(node)}`);
+    return {};
+  }
+
+  if (typeof node.$ref === 'string') {
+    const ref = node.$ref;
+    const { $ref: _ref, ...siblings } = node;
+    const target = resolvePointer(context.root, ref);
+    if (target === undefined) {
+      context.diagnostics.push(`${pathLabel(path)}: dropped unresolvable $ref '${ref}'`);
+      return sanitizeNode(siblings, path, context) as JsonSchema;
+    }
+    if (context.refStack.includes(ref) || context.refStack.length >= MAX_REF_DEPTH) {
+      context.diagnostics.push(`${pathLabel(path)}: recursive $ref '${ref}' left unconstrained`);
+      return sanitizeNode({ description: siblings.description }, path, context) as JsonSchema;
+    }
+    context.refStack.push(ref);
+    const resolved = sanitizeNode(target, path, context);
+    context.refStack.pop();
+    if (resolved === false) {
+      return false;
+    }
+    const rest = sanitizeNode(siblings, path, context);
+    return resolved === true ? rest : { ...resolved, ...(rest as JsonSchema) };
+  }
+
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (DEFINITION_KEYWORDS.has(key)) {
+      continue;
+    }
+    if (STRIPPED_KEYWORDS.has(key)) {
+      context.diagnostics.push(`${pathLabel(path)}: stripped '${key}'`);
+      continue;
+    }
+    if (key === 'format') {
+      // Formats are advisory; keep the hint for the model in the description instead.
+      context.diagnostics.push(`${pathLabel(path)}: moved format '${String(value)}' into the description`);
+      continue;
+    }
+    if (SCHEMA_KEYWORDS.has(key) && (isSchemaObject(value) || typeof value === 'boolean')) {
+      result[key] = sanitizeNode(value, [...path, key], context);
+    } else if (SCHEMA_LIST_KEYWORDS.has(key) && Array.isArray(value)) {
+      result[key] = value.map((entry, index) =>
+        sanitizeNode(entry, [...path, key, String(index)], context),
+      );
+    } else if (key === 'items' && Array.isArray(value)) {
+      // Draft 4-7 tuple form.
+      result.prefixItems = value.map((entry, index) =>
+        sanitizeNode(entry, [...path, key, String(index)], context),
+      );
+    } else if (SCHEMA_MAP_KEYWORDS.has(key) && isSchemaObject(value)) {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, entry]) => [name, sanitizeNode(entry, [...path, name], context)]),
+      );
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (typeof node.format === 'string') {
+    const hint = `Format: ${node.format}.`;
+    result.description =
+      typeof result.description === 'string' && result.description.length > 0
+        ? `${result.description} (${hint})`
+        : hint;
+  }
+  return result;
+}
+
+function mergeObjectBranches(branches: JsonSchema[], requiredInEvery: boolean): JsonSchema | null {
+  if (!branches.every((branch) => branch.type === 'object' || isSchemaObject(branch.properties))) {
+    return null;
+  }
+  const properties: Record<string, unknown> = {};
+  let required: string[] | null = null;
+  for (const branch of branches) {
+    Object.assign(properties, isSchemaObject(branch.properties) ? branch.properties : {});
+    const branchRequired = Array.isArray(branch.required) ? (branch.required as string[]) : [];
+    if (required === null) {
+      required = [...branchRequired];
+    } else if (requiredInEvery) {
+      required = required.filter((name) => branchRequired.includes(name));
+    } else {
+      required = [...new Set([...required, ...branchRequired])];
+    }
+  }
+  const merged: JsonSchema = { type: 'object', properties };
+  if (required && required.length > 0) {
+    merged.required = required;
+  }
+  return merged;
+}
+
+const NON_OBJECT_KEYWORDS = ['allOf', 'oneOf', 'anyOf', 'enum', 'const', 'items', 'prefixItems'];
+
+/**
+ * Azure only accepts function parameters whose root is a plain `type: "object"` schema. Other
+ * roots become the single required `value` property of one.
+ */
+function normalizeRoot(
+  schema: JsonSchema,
+  diagnostics: string[],
+): { schema: JsonSchema; wrapped: boolean } {
+  for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+    const branches = schema[keyword];
+    if (schema.type !== undefined || !Array.isArray(branches)) {
+      continue;
+    }
+    const merged = mergeObjectBranches(branches as JsonSchema[], keyword !== 'allOf');
+    if (merged) {
+      const { [keyword]: _branches, ...rest } = schema;
+      diagnostics.push(`(root): flattened '${keyword}' into a single object`);
+      return normalizeRoot({ ...rest, ...merged }, diagnostics);
+    }
+  }
+
+  // Without a type or anything constraining the value to another shape, an object is as good as
+  // anything else.
+  const constrainsShape = NON_OBJECT_KEYWORDS.some((keyword) => schema[keyword] !== undefined);
+  if (schema.type === undefined && (isSchemaObject(schema.properties) || !constrainsShape)) {
+    schema = { type: 'object', ...schema };
+  }
+  if (schema.type !== 'object') {
+    diagnostics.push(`(root): wrapped non-object schema in an object with a single 'value' property`);
+    return {
+      schema: { type: 'object', properties: { value: schema }, required: ['value'] },
+      wrapped: true,
+    };
+  }
+  if (!isSchemaObject(schema.properties)) {
+    return { schema: { ...schema, properties: {} }, wrapped: false };
+  }
+  return { schema, wrapped: false };
+}
+
+class StrictSchemaError extends Error {}
+
+function makeNullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') {
+    const nullable: JsonSchema = { ...schema, type: [schema.type, 'null'] };
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+      nullable.enum = [...schema.enum, null];
+    }
+    return nullable;
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes('null') ? schema : { ...schema, type: [...schema.type, 'null'] };
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function toStrictNode(node: JsonSchema, path: string[], diagnostics: string[]): JsonSchema {
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (STRICT_UNSUPPORTED_KEYWORDS.has(key)) {
+      diagnostics.push(`${pathLabel(path)}: stripped '${key}' (unsupported in strict mode)`);
+      continue;
+    }
+    result[key] = value;
+  }
+
+  if (Array.isArray(result.oneOf)) {
+    result.anyOf = [...((result.anyOf as JsonSchema[]) ?? []), ...result.oneOf];
+    delete result.oneOf;
+  }
+  if (Array.isArray(result.allOf)) {
+    const merged = mergeObjectBranches(result.allOf as JsonSchema[], false);
+    if (!merged) {
+      throw new StrictSchemaError(`${pathLabel(path)}: 'allOf' of non-object schemas`);
+    }
+    delete result.allOf;
+    Object.assign(result, merged);
+  }
+  if (Array.isArray(result.anyOf)) {
+    result.anyOf = (result.anyOf as JsonSchema[]).map((branch, index) =>
+      toStrictNode(branch, [...path, 'anyOf', String(index)], diagnostics),
+    );
+  }
+
+  const types = Array.isArray(result.type) ? result.type : [result.type];
+  if (types.includes('object') || isSchemaObject(result.properties)) {
+    const properties = isSchemaObject(result.properties) ? result.properties : {};
+    const allowsExtra = result.additionalProperties !== undefined && result.additionalProperties !== false;
+    // An empty root object is a tool without parameters; an empty nested one is a free-form map.
+    const isFreeForm = allowsExtra || (path.length > 0 && result.additionalProperties !== false);
+    if (Object.keys(properties).length === 0 && isFreeForm) {
+      throw new StrictSchemaError(`${pathLabel(path)}: free-form objects cannot be strict`);
+    }
+    if (allowsExtra) {
+      diagnostics.push(`${pathLabel(path)}: additional properties are not allowed in strict mode`);
+    }
+    const required = new Set(Array.isArray(result.required) ? (result.required as string[]) : []);
+    result.properties = Object.fromEntries(
+      Object.entries(properties).map(([name, child]) => {
+        const strictChild = toStrictNode(child as JsonSchema, [...path, name], diagnostics);
+        // Strict mode requires every property, so optional ones become nullable instead.
+        return [name, required.has(name) ? strictChild : makeNullable(strictChild)];
+      }),
+    );
+    result.required = Object.keys(properties);
+    result.additionalProperties = false;
+  }
+  if (types.includes('array')) {
+    if (!isSchemaObject(result.items)) {
+      throw new StrictSchemaError(`${pathLabel(path)}: arrays need an 'items' schema`);
+    }
+    result.items = toStrictNode(result.items, [...path, 'items'], diagnostics);
+    delete result.prefixItems;
+  }
+
+  if (
+    result.type === undefined &&
+    result.anyOf === undefined &&
+    result.enum === undefined &&
+    result.const === undefined
+  ) {
+    throw new StrictSchemaError(`${pathLabel(path)}: schema has no type`);
+  }
+  return result;
+}
+
+/**
+ * Normalizes a tool `input_schema` into something Azure accepts: local `$ref`s are inlined,
+ * unsupported keywords stripped and the root coerced to a plain object. With `strict`, the schema
+ * is additionally rewritten for strict function calling; tools that cannot be made strict fall
+ * back to the relaxed schema.
+ */
+export function sanitizeToolSchema(
+  inputSchema: unknown,
+  options: { strict?: boolean } = {},
+): SanitizedToolSchema {
+  const diagnostics: string[] = [];
+  if (!isSchemaObject(inputSchema)) {
+    if (inputSchema !== undefined) {
+      diagnostics.push('(root): replaced invalid schema with an empty object');
+    }
+    return { schema: { type: 'object', properties: {} }, strict: false, wrapped: false, diagnostics };
+  }
+
+  const sanitized = sanitizeNode(inputSchema, [], { root: inputSchema, refStack: [], diagnostics });
+  // Only a root `$ref` to a boolean schema gets here as a boolean.
+  const { schema, wrapped } = normalizeRoot(isSchemaObject(sanitized) ? sanitized : {}, diagnostics);
+  if (!options.strict) {
+    return { schema, strict: false, wrapped, diagnostics };
+  }
+
+  const strictDiagnostics: string[] = [];
+  try {
+    const strictSchema = toStrictNode(schema, [], strictDiagnostics);
+    return {
+      schema: strictSchema,
+      strict: true,
+      wrapped,
+      diagnostics: [...diagnostics, ...strictDiagnostics],
+    };
+  } catch (error) {
+    if (!(error instanceof StrictSchemaError)) {
+      throw error;
+    }
+    diagnostics.push(`strict mode disabled: ${error.message}`);
+    return { schema, strict: false, wrapped, diagnostics };
+  }
+}
+
+/**
+ * Undoes the nullable rewrite of strict mode: drops `null` values the model had to send for
+ * optional properties, so the client sees the arguments its own schema describes.
+ */
+export function dropOptionalNulls(value: unknown, schema: unknown): unknown {
+  if (Array.isArray(value)) {
+    const items = isSchemaObject(schema) ? schema.items : undefined;
+    return value.map((entry) => dropOptionalNulls(entry, items));
+  }
+  if (!isSchemaObject(value) || !isSchemaObject(schema)) {
+    return value;
+  }
+  const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+  const result: Record<string, unknown> = {};
+  for (const [name, entry] of Object.entries(value)) {
+    if (entry === null && !required.includes(name)) {
+      continue;
+    }
+    result[name] = dropOptionalNulls(entry, properties[name]);
+  }
+  return result;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isSchemaObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function collectSchemaErrors(value: unknown, schema: unknown, path: string, errors: string[]): void {
+  if (!isSchemaObject(schema)) {
+    return;
+  }
+  const label = path || '(root)';
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    errors.push(`${label}: expected ${types.join(' or ')}, got ${actual}`);
+    return;
+  }
+  const options = Array.isArray(schema.enum) ? schema.enum.map((option) => JSON.stringify(option)) : null;
+  if (options && !options.includes(JSON.stringify(value))) {
+    errors.push(`${label}: must be one of ${options.join(', ')}`);
+    return;
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const branches = schema[keyword];
+    if (Array.isArray(branches) && branches.length > 0) {
+      const matches = branches.some((branch) => {
+        const branchErrors: string[] = [];
+        collectSchemaErrors(value, branch, path, branchErrors);
+        return branchErrors.length === 0;
+      });
+      if (!matches) {
+        errors.push(`${label}: does not match any allowed schema`);
+        return;
+      }
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const branch of schema.allOf) {
+      collectSchemaErrors(value, branch, path, errors);
+    }
+  }
+
+  if (isSchemaObject(value)) {
+    const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+    for (const name of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+      if (value[name] === undefined) {
+        errors.push(`${path ? `${path}.` : ''}${name}: required property is missing`);
+      }
+    }
+    for (const [name, entry] of Object.entries(value)) {
+      if (name in properties) {
+        collectSchemaErrors(entry, properties[name], path ? `${path}.${name}` : name, errors);
+      }
+    }
+  } else if (Array.isArray(value) && isSchemaObject(schema.items)) {
+    value.forEach((entry, index) =>
+      collectSchemaErrors(entry, schema.items, `${path}[${index}]`, errors),
+    );
+  }
+}
+
+/**
+ * Checks tool arguments against the tool's input schema. Only the structural keywords (types,
+ * required properties, enums and combinators) are checked; the client validates the rest.
+ * Returns a list of problems, empty when the value is acceptable.
+ */
+export function validateAgainstSchema(value: unknown, schema: unknown): string[] {
+  const errors: string[] = [];
+  collectSchemaErrors(value, schema, '', errors);
+  return errors;
+}
@@ -1,93 +1,103 @@
+import crypto from 'crypto';
 import http from 'http';
-import express, { Request, Response } from 'express';
+import { Readable } from 'stream';
+import express, { NextFunction, Request, Response } from 'express';
 import axios from 'axios';
-import { loadCodexConfig } from './config';
+import {
+  ClientKey,
+  ClientRegistry,
+  createClientQuotas,
+  createStaticClientRegistry,
+  isModelAllowed,
+  watchClientKeysFile,
+} from './clients';
+import { loadCodexConfig, ProviderConfig } from './config';
+import { resolveContextWindow } from './context';
+import { createConversationStore } from './conversations';
+import { chatToAnthropicResponse, responsesToChatRequest } from './chat';
 import {
   AnthropicRequest,
   AnthropicResponse,
   anthropicToAzureRequest,
+  applyStopSequences,
+  AzureRequestOptions,
+  AzureResponsesRequestBody,
+  AzureUsage,
   azureToAnthropicResponse,
+  azureUsageToAnthropic,
+  createToolInputDecoder,
+  ToolInputDecoder,
 } from './converters';
+import {
+  AnthropicApiError,
+  ContentFilterError,
+  isPreviousResponseNotFound,
+  toAnthropicError,
+} from './errors';
+import { createRateLimiter, requestPriority } from './ratelimit';
+import { createPayloadLog, redactPayload } from './redaction';
+import { refusalResponse } from './refusal';
+import { describeBackend, sendWithFailover, UpstreamBackend } from './retry';
+import { installLogContext, logRequest, runWithLogContext, updateLogContext } from './logging';
+import { createProxyMetrics, routeLabel } from './metrics';
+import { ResolvedModelRoute, resolveModelRoute } from './routing';
+import {
+  AnthropicStreamEmitter,
+  createAnthropicStreamEmitter,
+  pipeChatCompletionsStream,
+  pipeResponsesStream,
+  writeAnthropicMessage,
+  writeSseEvent,
+} from './streaming';
+import { connectTimeoutAgents, startUpstreamAttempt, UpstreamAttempt } from './timeouts';
+import { countRequestTokens } from './tokens';
+import {
+  addTokenCounts,
+  createUsageLedger,
+  readUsageRecords,
+  summarizeUsage,
+  UsageGrouping,
+  usageTokens,
+} from './usage';
 
-function writeSseEvent(res: Response, event: string, data: unknown): void {
-  res.write(`event: ${event}\n`);
-  res.write(`data: ${JSON.stringify(data)}\n\n`);
-  const maybeFlush = (res as Response & { flush?: () => void }).flush;
-  if (typeof maybeFlush === 'function') {
-    maybeFlush.call(res);
+function sendAnthropicError(res: Response, error: AnthropicApiError): void {
+  if (res.headersSent) {
+    // Mid-stream failures can only be reported as an SSE error frame.
+    if (!res.writableEnded) {
+      writeSseEvent(res, 'error', error.toBody());
+      res.end();
+    }
+    return;
   }
+  res.status(error.status).set(error.headers).json(error.toBody());
 }
 
-function streamAnthropicResponse(res: Response, response: AnthropicResponse): void {
-  res.status(200);
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache, no-transform');
-  res.setHeader('Connection', 'keep-alive');
-
-  writeSseEvent(res, 'message_start', {
-    type: 'message_start',
-    message: {
-      id: response.id,
-      type: 'message',
-      role: response.role,
-      model: response.model,
-      content: [],
-      stop_reason: null,
-      stop_sequence: null,
-      usage: response.usage,
-    },
-  });
-
-  response.content.forEach((block, index) => {
-    writeSseEvent(res, 'content_block_start', {
-      type: 'content_block_start',
-      index,
-      content_block: block,
-    });
-
-    if (block.type === 'text') {
-      if (block.text.length > 0) {
-        writeSseEvent(res, 'content_block_delta', {
-          type: 'content_block_delta',
-          index,
-          delta: {
-            type: 'text_delta',
-            text: block.text,
-          },
-        });
-      }
-    } else if (block.type === 'tool_use') {
-      writeSseEvent(res, 'content_block_delta', {
-        type: 'content_block_delta',
-        index,
-        delta: {
-          type: 'input_json_delta',
-          partial_json: JSON.stringify(block.input ?? {}),
-        },
-      });
-    }
-
-    writeSseEvent(res, 'content_block_stop', {
-      type: 'content_block_stop',
-      index,
-    });
-  });
-
-  writeSseEvent(res, 'message_delta', {
-    type: 'message_delta',
-    delta: {
-      stop_reason: response.stop_reason,
-      stop_sequence: response.stop_sequence,
-    },
-    usage: response.usage,
-  });
-
-  writeSseEvent(res, 'message_stop', {
-    type: 'message_stop',
-  });
+function buildProviderUrl(provider: ProviderConfig): string {
+  const base = provider.baseUrl.replace(/\/$/, '');
+  const path = provider.wireApi === 'chat' ? 'chat/completions' : 'responses';
+  const url = new URL(`${base}/${path}`);
+  if (provider.apiVersion) {
+    url.searchParams.set('api-version', provider.apiVersion);
+  }
+  for (const [key, value] of Object.entries(provider.queryParams)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
 
-  res.end();
+function buildProviderHeaders(provider: ProviderConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...provider.httpHeaders,
+  };
+  if (provider.apiKey && provider.authStyle === 'api-key') {
+    headers['api-key'] = provider.apiKey;
+  } else if (provider.apiKey && provider.authStyle === 'bearer') {
+    headers.Authorization = `Bearer ${provider.apiKey}`;
+  }
+  return headers;
 }
+
 export interface ServerOptions {
   port?: number;
   host?: string;
@@ -95,89 +105,569 @@ export interface ServerOptions {
 
 export function startServer(options: ServerOptions = {}): http.Server {
   const app = express();
+  installLogContext();
+  // Set before the body is parsed so even malformed requests can be traced.
+  app.use('/v1', (_req: Request, res: Response, next: NextFunction) => {
+    const requestId = `req_${crypto.randomBytes(12).toString('hex')}`;
+    res.locals.requestId = requestId;
+    res.setHeader('request-id', requestId);
+    runWithLogContext({ requestId }, next);
+  });
   app.use(express.json({ limit: '2mb' }));
 
   const serverConfig = loadCodexConfig();
-  const { azure } = serverConfig;
 
   const expectedAnthropicToken = process.env.ANTHROPIC_AUTH_TOKEN ?? null;
   const debugLogging = process.env.DEBUG === 'true';
+  const payloadLog =
+    debugLogging && serverConfig.debug.payloadLog
+      ? createPayloadLog(serverConfig.debug.payloadLog)
+      : undefined;
+  const conversations = serverConfig.statefulResponses ? createConversationStore() : undefined;
 
-  function buildAzureUrl(): string {
-    const base = azure.baseUrl.replace(/\/$/, '');
-    let url = `${base}/${azure.wireApi}`;
-    if (azure.apiVersion) {
-      const separator = url.includes('?') ? '&' : '?';
-      url = `${url}${separator}api-version=${encodeURIComponent(azure.apiVersion)}`;
-    }
-    return url;
+  let clients: ClientRegistry | undefined;
+  if (serverConfig.clientKeysFile) {
+    clients = watchClientKeysFile(serverConfig.clientKeysFile);
+  } else if (expectedAnthropicToken) {
+    clients = createStaticClientRegistry('default', expectedAnthropicToken);
   }
+  const quotas = createClientQuotas(
+    serverConfig.usage.log ? readUsageRecords(serverConfig.usage.log) : [],
+  );
+  const usageLedger = createUsageLedger(serverConfig.usage);
+  const rateLimiter = createRateLimiter(serverConfig.rateLimits);
+  const metrics = createProxyMetrics();
 
   app.get('/health', (_req: Request, res: Response) => {
     res.json({ status: 'ok' });
   });
 
-  app.post('/v1/messages', async (req: Request, res: Response) => {
-    try {
-      if (expectedAnthropicToken) {
-        const providedToken =
-          req.header('x-api-key') ??
-          (req.header('authorization')?.startsWith('Bearer ')
-            ? req.header('authorization')?.slice('Bearer '.length)
-            : undefined);
-
-        if (!providedToken || providedToken !== expectedAnthropicToken) {
-          return res.status(401).json({ error: { message: 'Invalid or missing API key' } });
-        }
+  // Unauthenticated like /health, so Prometheus can scrape it; it holds no request content.
+  app.get('/metrics', (_req: Request, res: Response) => {
+    res.type('text/plain; version=0.0.4').send(metrics.render());
+  });
+
+  function authenticate(req: Request, res: Response, next: NextFunction): void {
+    if (!clients) {
+      next();
+      return;
+    }
+    const providedToken =
+      req.header('x-api-key') ??
+      (req.header('authorization')?.startsWith('Bearer ')
+        ? req.header('authorization')?.slice('Bearer '.length)
+        : undefined);
+
+    const reject = (message: string) => {
+      // Counted with the other Messages API responses, so error rates include rejected keys.
+      if (req.path === '/v1/messages') {
+        metrics.requests.inc({ route: routeLabel(undefined), status: '401' });
       }
+      sendAnthropicError(res, new AnthropicApiError(401, 'authentication_error', message));
+    };
+
+    const client = clients.authenticate(providedToken);
+    if (!client) {
+      reject('Invalid or missing API key');
+      return;
+    }
+    if (!client.enabled) {
+      reject(`API key '${client.label}' is disabled`);
+      return;
+    }
+    res.locals.client = client;
+    // Everything logged while serving the request carries the key's label.
+    if (serverConfig.clientKeysFile) {
+      updateLogContext({ client: client.label });
+    }
+    next();
+  }
 
+  function routeRequest(body: AnthropicRequest) {
+    return resolveModelRoute(serverConfig.routes, body.model, {
+      provider: serverConfig.provider,
+      model: serverConfig.model,
+      reasoningEffort: serverConfig.reasoningEffort,
+      timeouts: serverConfig.timeouts,
+    });
+  }
+
+  function checkModelAllowed(client: ClientKey, requestedModel: string, deployment: string): void {
+    if (!isModelAllowed(client, [requestedModel, deployment])) {
+      throw new AnthropicApiError(
+        403,
+        'permission_error',
+        `API key '${client.label}' is not allowed to use model '${requestedModel}'`,
+      );
+    }
+  }
+
+  app.post('/v1/messages/count_tokens', authenticate, async (req: Request, res: Response) => {
+    try {
       const body = req.body as AnthropicRequest;
-      const azureRequest = anthropicToAzureRequest(body, serverConfig.model, {
-        defaultReasoningEffort: serverConfig.reasoningEffort,
+      const route = routeRequest(body);
+      const client = res.locals.client as ClientKey | undefined;
+      if (client) {
+        const requestedModel =
+          typeof body.model === 'string' && body.model ? body.model : route.deployment;
+        checkModelAllowed(client, requestedModel, route.deployment);
+      }
+      const azureRequest = anthropicToAzureRequest({ ...body, model: route.deployment }, serverConfig.model, {
+        reasoningSummary: serverConfig.reasoningSummary,
+        thinkingBudgetEffort: serverConfig.thinkingBudgetEffort,
+        strictTools: serverConfig.strictTools,
       });
+      res.json({ input_tokens: countRequestTokens(azureRequest) });
+    } catch (error: unknown) {
+      sendAnthropicError(
+        res,
+        await toAnthropicError(error, { providerName: serverConfig.provider.name }),
+      );
+    }
+  });
+
+  const usageGroupings: UsageGrouping[] = ['day', 'month', 'model', 'deployment', 'client'];
+
+  app.get('/usage', authenticate, (req: Request, res: Response) => {
+    const usageLog = serverConfig.usage.log;
+    if (!usageLog) {
+      sendAnthropicError(
+        res,
+        new AnthropicApiError(404, 'not_found_error', 'Usage recording is disabled (usage.log = false)'),
+      );
+      return;
+    }
+    const group = typeof req.query.group === 'string' ? req.query.group : 'day';
+    const since = typeof req.query.since === 'string' ? req.query.since : undefined;
+    if (!usageGroupings.includes(group as UsageGrouping)) {
+      sendAnthropicError(
+        res,
+        new AnthropicApiError(
+          400,
+          'invalid_request_error',
+          `group must be one of ${usageGroupings.join(', ')}`,
+        ),
+      );
+      return;
+    }
+    if (since !== undefined && Number.isNaN(Date.parse(since))) {
+      sendAnthropicError(
+        res,
+        new AnthropicApiError(400, 'invalid_request_error', 'since must be a date (YYYY-MM-DD)'),
+      );
+      return;
+    }
+    // With per-client keys, each client only sees its own usage.
+    const client = res.locals.client as ClientKey | undefined;
+    const rows = summarizeUsage(readUsageRecords(usageLog), group as UsageGrouping, {
+      since,
+      client: serverConfig.clientKeysFile ? client?.label : undefined,
+    });
+    res.json({ group, since: since ?? null, data: rows.slice(0, -1), total: rows[rows.length - 1] });
+  });
 
+  app.post('/v1/messages', authenticate, async (req: Request, res: Response) => {
+    let currentBackend: UpstreamBackend | undefined;
+    let matchedRoute: ResolvedModelRoute | undefined;
+    let currentAttempt: UpstreamAttempt | undefined;
+    let streamEmitter: AnthropicStreamEmitter | undefined;
+    // Claude Code closes the connection when the user interrupts; the upstream call goes with it.
+    const clientAbort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        clientAbort.abort();
+      }
+    });
+    const body = req.body as AnthropicRequest;
+    const client = res.locals.client as ClientKey | undefined;
+    const startedAt = Date.now();
+    let status = 200;
+    let upstreamStatus: number | string | undefined;
+    let upstreamCalls = 0;
+    // Summed over every upstream call made for the request, including the tool call retry.
+    const tokens = usageTokens(undefined);
+    const recordUsage = (usage: AzureUsage | undefined) => addTokenCounts(tokens, usageTokens(usage));
+    // The terminal gets a redacted copy; the payload log, when configured, the full one.
+    const logPayload = (label: string, kind: string, payload: unknown) => {
+      console.log(label, JSON.stringify(redactPayload(payload, serverConfig.debug)));
+      payloadLog?.write(res.locals.requestId, kind, payload);
+    };
+    const logRefusal = (reason: string) => {
       if (debugLogging) {
-        console.log('Anthropic request:', JSON.stringify(body));
-        console.log('Azure request payload:', JSON.stringify(azureRequest));
+        console.log(`Refusal: ${reason}`);
       }
-      const url = buildAzureUrl();
+    };
+    try {
+      const route = routeRequest(body);
+      matchedRoute = route;
+      // Claude Code expects the model name it asked for, not the deployment that served it.
+      const responseModel = typeof body.model === 'string' && body.model ? body.model : route.deployment;
 
-      const azureResponse = await axios.post(url, azureRequest, {
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': azure.apiKey,
-        },
-        timeout: 60_000,
-      });
+      if (client) {
+        checkModelAllowed(client, responseModel, route.deployment);
+        quotas.admit(client);
+      }
+      usageLedger.checkBudget();
+
+      const requestOptions: AzureRequestOptions = {
+        defaultReasoningEffort: route.reasoningEffort,
+        reasoningSummary: serverConfig.reasoningSummary,
+        thinkingBudgetEffort: serverConfig.thinkingBudgetEffort,
+        strictTools: serverConfig.strictTools,
+        truncateToolResults: serverConfig.truncateToolResults,
+        onToolSchemaDiagnostics: debugLogging
+          ? (toolName, diagnostics) =>
+              console.log(`Tool schema '${toolName}' adjusted: ${diagnostics.join('; ')}`)
+          : undefined,
+      };
+
+      if (debugLogging) {
+        logPayload('Anthropic request:', 'anthropic_request', body);
+      }
+
+      const convertFor = (candidate: UpstreamBackend) => {
+        const candidateOptions: AzureRequestOptions = {
+          ...requestOptions,
+          contextWindow: resolveContextWindow(candidate.deployment, serverConfig.contextWindows),
+        };
+        const responsesRequest = anthropicToAzureRequest(
+          { ...body, model: candidate.deployment },
+          serverConfig.model,
+          candidateOptions,
+        );
+        const useChatApi = candidate.provider.wireApi === 'chat';
+        return {
+          responsesRequest,
+          useChatApi,
+          upstreamRequest: useChatApi ? responsesToChatRequest(responsesRequest) : responsesRequest,
+        };
+      };
+      // Converting for the primary backend up front turns malformed requests, rejected tool
+      // schemas and prompts over the context window into a plain 400 before a stream opens.
+      const primaryBackend = route.backends[0];
+      const primaryRequest = convertFor(primaryBackend);
+
+      if (body.stream) {
+        // Headers and message_start go out before the upstream answers, which can take minutes
+        // with reasoning models; pings keep the connection alive until content arrives.
+        streamEmitter = createAnthropicStreamEmitter(res, {
+          stopSequences: body.stop_sequences,
+          pingIntervalMs: serverConfig.streamPingIntervalMs,
+        });
+        // The upstream reports usage only at the end; until then the local count stands in.
+        streamEmitter.start(
+          { id: `msg_${crypto.randomUUID().replace(/-/g, '')}`, model: responseModel },
+          {
+            ...azureUsageToAnthropic(undefined),
+            input_tokens: countRequestTokens(primaryRequest.responsesRequest),
+          },
+        );
+        metrics.activeStreams.inc();
+      }
+
+      const sendUpstream = () =>
+        sendWithFailover(route.backends, serverConfig.retryPolicy, async (candidate) => {
+          currentBackend = candidate;
+          const { responsesRequest, upstreamRequest, useChatApi } =
+            candidate === primaryBackend ? primaryRequest : convertFor(candidate);
+
+          // Stored responses belong to one backend, so conversations are tracked per backend.
+          const scope = describeBackend(candidate);
+          // Unrouted requests go to whatever deployment the client named; only the provider is
+          // a safe label for those.
+          const backendLabel =
+            route.match === undefined ? `${candidate.provider.id}/default` : scope;
+          let stateful: { scope: string; request: AzureResponsesRequestBody } | undefined;
+          let chainedRequest: AzureResponsesRequestBody | undefined;
+          if (conversations && 'input' in upstreamRequest) {
+            upstreamRequest.store = true;
+            stateful = { scope, request: upstreamRequest };
+            chainedRequest = conversations.chain(scope, upstreamRequest);
+          }
+
+          if (debugLogging) {
+            console.log(`Routing ${responseModel} to ${scope}`);
+            if (chainedRequest) {
+              console.log(
+                `Continuing response ${chainedRequest.previous_response_id} with ` +
+                  `${chainedRequest.input.length} of ${stateful?.request.input.length} input items`,
+              );
+            }
+            logPayload(
+              'Upstream request payload:',
+              'upstream_request',
+              chainedRequest ?? upstreamRequest,
+            );
+          }
+
+          // Waiting for quota happens before the attempt's timers start.
+          await rateLimiter.acquire({
+            backend: scope,
+            deployment: candidate.deployment,
+            priority: requestPriority(responseModel, serverConfig.rateLimits),
+            client: client?.label,
+            // Azure counts the prompt plus the maximum output against the quota up front.
+            estimateTokens: () =>
+              countRequestTokens(responsesRequest) + (responsesRequest.max_output_tokens ?? 0),
+            signal: clientAbort.signal,
+          });
+          currentAttempt?.finish();
+          const attempt = startUpstreamAttempt(route.timeouts, clientAbort.signal);
+          currentAttempt = attempt;
+          const recordUpstream = (sentAt: number, upstream: number | string) => {
+            upstreamStatus = upstream;
+            metrics.upstreamRequests.inc({ backend: backendLabel, status: String(upstream) });
+            metrics.upstreamDuration.observe(
+              { backend: backendLabel },
+              (Date.now() - sentAt) / 1000,
+            );
+          };
+          // Every request sent upstream after the first counts as a retry, whatever prompted it:
+          // a failover, an expired stored response or invalid tool call arguments.
+          const post = (payload: unknown) => {
+            upstreamCalls += 1;
+            if (upstreamCalls > 1) {
+              metrics.upstreamRetries.inc({ backend: backendLabel });
+            }
+            const sentAt = Date.now();
+            return axios
+              .post(buildProviderUrl(candidate.provider), payload, {
+                headers: buildProviderHeaders(candidate.provider),
+                signal: attempt.signal,
+                responseType: body.stream ? 'stream' : 'json',
+                ...connectTimeoutAgents(route.timeouts.connectMs),
+              })
+              .then(
+                (response) => {
+                  attempt.receivedFirstByte();
+                  recordUpstream(sentAt, response.status);
+                  rateLimiter.observe(scope, candidate.deployment, response.headers);
+                  return response;
+                },
+                (error: unknown) => {
+                  const failure = attempt.timeoutError(error) ?? error;
+                  if (axios.isAxiosError(error) && error.response) {
+                    recordUpstream(sentAt, error.response.status);
+                    rateLimiter.observe(scope, candidate.deployment, error.response.headers);
+                  } else {
+                    recordUpstream(sentAt, (failure as { code?: string }).code ?? 'error');
+                  }
+                  throw failure;
+                },
+              );
+          };
+          if (!chainedRequest) {
+            const response = await post(upstreamRequest);
+            return { data: response.data, useChatApi, stateful };
+          }
+          try {
+            const response = await post(chainedRequest);
+            return { data: response.data, useChatApi, stateful };
+          } catch (error: unknown) {
+            if (!(await isPreviousResponseNotFound(error))) {
+              throw error;
+            }
+            // The stored response has expired upstream; the full history still works.
+            conversations?.forget(chainedRequest.previous_response_id ?? '');
+            console.warn(
+              `Response ${chainedRequest.previous_response_id} expired; resending the full history`,
+            );
+            const response = await post(upstreamRequest);
+            return { data: response.data, useChatApi, stateful };
+          }
+        }, clientAbort.signal);
+
+      let { result: upstream, backend: servingBackend } = await sendUpstream();
+      if (debugLogging) {
+        console.log(`Served by ${describeBackend(servingBackend)}`);
+      }
+
+      // Created after the first conversion, which validates the request's tool definitions.
+      const validateToolInput = createToolInputDecoder(body);
+      let invalidToolCalls = 0;
+      const decodeToolInput: ToolInputDecoder = (toolName, rawArguments) => {
+        const result = validateToolInput(toolName, rawArguments);
+        if ('error' in result) {
+          invalidToolCalls += 1;
+          console.warn(`Invalid arguments for tool ${toolName}: ${result.error}`);
+        }
+        return result;
+      };
 
-      const anthropicResponse = azureToAnthropicResponse(azureResponse.data, azureRequest.model);
+      const rememberResponse = (responseId: string | undefined, message: AnthropicResponse) => {
+        const stateful = upstream.stateful;
+        // The client's copy of a cut or replaced response no longer matches the stored one.
+        if (
+          !conversations ||
+          !stateful ||
+          !responseId ||
+          invalidToolCalls > 0 ||
+          message.stop_reason === 'stop_sequence' ||
+          message.stop_reason === 'refusal'
+        ) {
+          return;
+        }
+        conversations.remember(stateful.scope, stateful.request, responseId, message);
+      };
 
       if (body.stream) {
-        streamAnthropicResponse(res, anthropicResponse);
+        const pipeStream = upstream.useChatApi ? pipeChatCompletionsStream : pipeResponsesStream;
+        await pipeStream(upstream.data as Readable, res, responseModel, {
+          stopSequences: body.stop_sequences,
+          emitter: streamEmitter,
+          decodeToolInput,
+          onRefusal: logRefusal,
+          onUsage: recordUsage,
+          onResponse: (response) => {
+            // Without the output items the streamed turn cannot be matched next time.
+            if (!response.output) {
+              return;
+            }
+            rememberResponse(
+              response.id,
+              applyStopSequences(
+                azureToAnthropicResponse(response, responseModel, validateToolInput),
+                body.stop_sequences,
+              ),
+            );
+          },
+        });
         return;
       }
 
+      const toAnthropicResponse = () =>
+        applyStopSequences(
+          upstream.useChatApi
+            ? chatToAnthropicResponse(upstream.data, responseModel, decodeToolInput)
+            : azureToAnthropicResponse(upstream.data, responseModel, decodeToolInput),
+          body.stop_sequences,
+        );
+
+      let anthropicResponse = toAnthropicResponse();
+      if (invalidToolCalls > 0) {
+        // Sampling again usually yields usable arguments; a second failure is reported as text.
+        console.warn('Retrying the request once because of invalid tool call arguments');
+        recordUsage(upstream.data?.usage);
+        invalidToolCalls = 0;
+        ({ result: upstream, backend: servingBackend } = await sendUpstream());
+        anthropicResponse = toAnthropicResponse();
+      }
+      if (anthropicResponse.stop_reason === 'refusal') {
+        const lastBlock = anthropicResponse.content[anthropicResponse.content.length - 1];
+        logRefusal(lastBlock?.type === 'text' ? lastBlock.text : 'refused');
+      }
+      if (!upstream.useChatApi) {
+        rememberResponse((upstream.data as { id?: string }).id, anthropicResponse);
+      }
+
+      recordUsage(upstream.data?.usage);
       res.json(anthropicResponse);
     } catch (error: unknown) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status ?? 500;
-        const data = error.response?.data;
-        res.status(status).json({
-          error: {
-            message:
-              typeof data === 'string'
-                ? data
-                : data?.error?.message ??
-                  data?.message ??
-                  'Unexpected error from Azure OpenAI service',
-          },
-        });
+      if (clientAbort.signal.aborted) {
+        // nginx's code for a client that closed the connection before the response was sent.
+        status = 499;
+        console.log(
+          `Client disconnected; cancelled the upstream request to ${
+            currentBackend ? describeBackend(currentBackend) : 'the provider'
+          }`,
+        );
         return;
       }
+      const anthropicError = await toAnthropicError(currentAttempt?.timeoutError(error) ?? error, {
+        providerName: currentBackend?.provider.name ?? serverConfig.provider.name,
+        deployment: currentBackend?.deployment,
+      });
+      const streamUntouched = !res.headersSent || streamEmitter?.blockCount === 0;
+      if (anthropicError instanceof ContentFilterError && streamUntouched && !res.writableEnded) {
+        // Anthropic reports refused prompts as a successful message, not an error.
+        logRefusal(anthropicError.message);
+        const refusal = refusalResponse(
+          'proxy-refusal',
+          body?.model ?? '',
+          anthropicError.message,
+          azureUsageToAnthropic(undefined),
+        );
+        if (body?.stream) {
+          writeAnthropicMessage(res, refusal, streamEmitter);
+        } else {
+          res.json(refusal);
+        }
+        return;
+      }
+      status = anthropicError.status;
+      console.error(
+        `Request failed (${anthropicError.status} ${anthropicError.type}): ${anthropicError.message}`,
+      );
+      sendAnthropicError(res, anthropicError);
+    } finally {
+      currentAttempt?.finish();
+      if (client) {
+        quotas.recordTokens(
+          client,
+          tokens.input_tokens + tokens.cached_tokens + tokens.output_tokens,
+        );
+      }
+      const model = typeof body?.model === 'string' ? body.model : '';
+      const latencyMs = Date.now() - startedAt;
+      const firstContentAt = streamEmitter?.firstContentAt;
+      usageLedger.record({
+        timestamp: new Date(startedAt).toISOString(),
+        client: client?.label,
+        model,
+        provider: currentBackend?.provider.id,
+        deployment: currentBackend?.deployment,
+        ...tokens,
+        latency_ms: latencyMs,
+        status,
+      });
+
+      if (streamEmitter) {
+        metrics.activeStreams.dec();
+      }
+      // Labelled by the configured route rather than the model name the client sent, which
+      // could create any number of series.
+      const route = routeLabel(matchedRoute);
+      metrics.requests.inc({ route, status: String(status) });
+      metrics.requestDuration.observe({ route }, latencyMs / 1000);
+      if (firstContentAt !== undefined) {
+        metrics.timeToFirstToken.observe({ route }, (firstContentAt - startedAt) / 1000);
+      }
+      metrics.tokens.inc({ route, type: 'input' }, tokens.input_tokens);
+      metrics.tokens.inc({ route, type: 'cached' }, tokens.cached_tokens);
+      metrics.tokens.inc({ route, type: 'output' }, tokens.output_tokens);
+      metrics.tokens.inc({ route, type: 'reasoning' }, tokens.reasoning_tokens);
+
+      logRequest({
+        request_id: res.locals.requestId,
+        client: client?.label,
+        model,
+        provider: currentBackend?.provider.id,
+        deployment: currentBackend?.deployment,
+        stream: body?.stream === true,
+        status,
+        upstream_status: upstreamStatus,
+        upstream_calls: upstreamCalls,
+        latency_ms: latencyMs,
+        ttft_ms: firstContentAt === undefined ? undefined : firstContentAt - startedAt,
+        ...tokens,
+      });
+    }
+  });
 
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      res.status(400).json({ error: { message } });
+  app.use((error: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      next(error);
+      return;
     }
+    // Body parser failures: malformed JSON or a payload over the size limit.
+    const status = (error as { status?: number })?.status;
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    sendAnthropicError(
+      res,
+      status === 413
+        ? new AnthropicApiError(413, 'request_too_large', message)
+        : new AnthropicApiError(400, 'invalid_request_error', message),
+    );
   });
 
   const host = options.host ?? process.env.HOST ?? '0.0.0.0';
@@ -185,6 +675,7 @@ export function startServer(options: ServerOptions = {}): http.Server {
   const server = app.listen(port, host, () => {
     console.log(`Claude proxy server running on http://${host}:${port}`);
   });
+  server.on('close', () => clients?.close());
 
   return server;
 }
@@ -0,0 +1,716 @@
+import type { Readable } from 'stream';
+import type { Response } from 'express';
+import { createParser, EventSourceMessage } from 'eventsource-parser';
+import {
+  AnthropicContentBlock,
+  AnthropicResponse,
+  AnthropicUsage,
+  AzureResponseOutputItem,
+  AzureResponsesResponseBody,
+  azureReasoningToAnthropic,
+  AzureUsage,
+  azureUsageToAnthropic,
+  decodeToolInput,
+  encodeReasoningSignature,
+  findStopSequence,
+  mapStopReason,
+  rejectUnfinishedToolInput,
+  toolCallToAnthropic,
+  ToolInputDecoder,
+} from './converters';
+import { ChatCompletionsUsage, mapChatFinishReason } from './chat';
+import { UpstreamStreamError } from './errors';
+import { contentFilterNotice, filteredCategories } from './refusal';
+
+export function writeSseEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+  const maybeFlush = (res as Response & { flush?: () => void }).flush;
+  if (typeof maybeFlush === 'function') {
+    maybeFlush.call(res);
+  }
+}
+
+/**
+ * Writes Anthropic message events to the client. Upstream translators address content blocks by
+ * their own keys (output index, content index...) and the emitter assigns the sequential Anthropic
+ * block indices, closing the previous block whenever a new one opens.
+ *
+ * Stop sequences are enforced on text deltas: text that could be the start of a stop sequence is
+ * held back until it is ruled out, and once one matches every later block and delta is dropped.
+ */
+export interface AnthropicStreamEmitter {
+  readonly started: boolean;
+  readonly blockCount: number;
+  /** When the first content block was sent, for time-to-first-token. */
+  readonly firstContentAt: number | undefined;
+  readonly stopSequence: string | null;
+  start(message: { id: string; model: string }, usage?: AnthropicUsage): void;
+  openBlock(key: string, block: AnthropicContentBlock): void;
+  hasBlock(key: string): boolean;
+  delta(key: string, delta: Record<string, unknown>): void;
+  closeBlock(key: string): void;
+  /**
+   * Without `usage` (the upstream reported none), message_delta repeats the usage sent with
+   * message_start.
+   */
+  finish(stopReason: string, stopSequence: string | null, usage?: AnthropicUsage): void;
+}
+
+export interface AnthropicStreamOptions {
+  stopSequences?: string[];
+  decodeToolInput?: ToolInputDecoder;
+  /**
+   * Called with the explanation sent to the client when the response ends in a refusal.
+   */
+  onRefusal?: (reason: string) => void;
+  /**
+   * Called with the final upstream response once a Responses stream completes.
+   */
+  onResponse?: (response: AzureResponsesResponseBody) => void;
+  /**
+   * Sends a `ping` event whenever the stream has been silent this long, so idle connections
+   * are not dropped by intermediaries while the model thinks. 0 or unset disables pings.
+   */
+  pingIntervalMs?: number;
+  /**
+   * An emitter the caller already started, for streams opened before the upstream answered.
+   */
+  emitter?: AnthropicStreamEmitter;
+  /**
+   * Called with the upstream usage once the stream finishes. Chat Completions usage is reported
+   * as is; its fields are a subset of the Responses API's.
+   */
+  onUsage?: (usage: AzureUsage) => void;
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Tool calls are only sent once their arguments are complete, so they can be decoded (and
+ * repaired) as a whole; calls with unusable arguments are sent as an explanatory text block.
+ * The cost is that clients see no progress while a long call is generated. Returns whether a
+ * tool_use block was sent.
+ */
+function emitToolCall(
+  emitter: AnthropicStreamEmitter,
+  key: string,
+  call: PendingToolCall,
+  decodeInput: ToolInputDecoder,
+): boolean {
+  const block = toolCallToAnthropic(call.id, call.name, call.arguments, decodeInput);
+  if (block.type === 'tool_use') {
+    emitter.openBlock(key, { ...block, input: {} });
+    emitter.delta(key, { type: 'input_json_delta', partial_json: JSON.stringify(block.input) });
+  } else if (block.type === 'text') {
+    emitter.openBlock(key, { type: 'text', text: '' });
+    emitter.delta(key, { type: 'text_delta', text: block.text });
+  }
+  emitter.closeBlock(key);
+  return block.type === 'tool_use';
+}
+
+/**
+ * Length of the longest suffix of `text` that is a proper prefix of a stop sequence.
+ */
+function partialStopSequenceLength(text: string, stopSequences: string[]): number {
+  let longest = 0;
+  for (const sequence of stopSequences) {
+    for (let length = Math.min(sequence.length - 1, text.length); length > longest; length -= 1) {
+      if (text.endsWith(sequence.slice(0, length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+  return longest;
+}
+
+export function createAnthropicStreamEmitter(
+  res: Response,
+  options: AnthropicStreamOptions = {},
+): AnthropicStreamEmitter {
+  const stopSequences = (options.stopSequences ?? []).filter((sequence) => sequence.length > 0);
+  const blockIndices = new Map<string, number>();
+  let openKey: string | null = null;
+  let nextIndex = 0;
+  let firstContentAt: number | undefined;
+  let started = false;
+  let startUsage = azureUsageToAnthropic(undefined);
+  let pendingText = '';
+  let matchedStopSequence: string | null = null;
+  let lastWriteAt = Date.now();
+  let pingTimer: NodeJS.Timeout | undefined;
+
+  const write = (event: string, data: unknown) => {
+    lastWriteAt = Date.now();
+    writeSseEvent(res, event, data);
+  };
+
+  const stopPings = () => {
+    clearInterval(pingTimer);
+    pingTimer = undefined;
+  };
+
+  const startPings = (intervalMs: number) => {
+    pingTimer = setInterval(() => {
+      if (res.writableEnded) {
+        stopPings();
+      } else if (Date.now() - lastWriteAt >= intervalMs) {
+        write('ping', { type: 'ping' });
+      }
+    }, intervalMs);
+    res.once('close', stopPings);
+  };
+
+  const writeDelta = (key: string, delta: Record<string, unknown>) => {
+    write('content_block_delta', {
+      type: 'content_block_delta',
+      index: blockIndices.get(key),
+      delta,
+    });
+  };
+
+  const writeTextDelta = (key: string, text: string) => {
+    const combined = pendingText + text;
+    pendingText = '';
+    const match = findStopSequence(combined, stopSequences);
+    if (match) {
+      matchedStopSequence = match.sequence;
+      if (match.index > 0) {
+        writeDelta(key, { type: 'text_delta', text: combined.slice(0, match.index) });
+      }
+      return;
+    }
+    const heldBack = partialStopSequenceLength(combined, stopSequences);
+    pendingText = combined.slice(combined.length - heldBack);
+    const ready = combined.slice(0, combined.length - heldBack);
+    if (ready.length > 0) {
+      writeDelta(key, { type: 'text_delta', text: ready });
+    }
+  };
+
+  const closeOpenBlock = () => {
+    if (openKey === null) {
+      return;
+    }
+    if (pendingText.length > 0) {
+      writeDelta(openKey, { type: 'text_delta', text: pendingText });
+      pendingText = '';
+    }
+    write('content_block_stop', {
+      type: 'content_block_stop',
+      index: blockIndices.get(openKey),
+    });
+    openKey = null;
+  };
+
+  return {
+    get started() {
+      return started;
+    },
+    get blockCount() {
+      return nextIndex;
+    },
+    get firstContentAt() {
+      return firstContentAt;
+    },
+    get stopSequence() {
+      return matchedStopSequence;
+    },
+    start(message, usage = azureUsageToAnthropic(undefined)) {
+      if (started) {
+        return;
+      }
+      started = true;
+      startUsage = usage;
+      if (!res.headersSent) {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        res.setHeader('Connection', 'keep-alive');
+      }
+      write('message_start', {
+        type: 'message_start',
+        message: {
+          id: message.id,
+          type: 'message',
+          role: 'assistant',
+          model: message.model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage,
+        },
+      });
+      if (options.pingIntervalMs && options.pingIntervalMs > 0) {
+        startPings(options.pingIntervalMs);
+      }
+    },
+    openBlock(key, block) {
+      if (matchedStopSequence !== null || blockIndices.has(key)) {
+        return;
+      }
+      closeOpenBlock();
+      const index = nextIndex;
+      nextIndex += 1;
+      firstContentAt ??= Date.now();
+      blockIndices.set(key, index);
+      openKey = key;
+      write('content_block_start', {
+        type: 'content_block_start',
+        index,
+        content_block: block,
+      });
+    },
+    hasBlock(key) {
+      return blockIndices.has(key);
+    },
+    delta(key, delta) {
+      if (matchedStopSequence !== null || openKey !== key) {
+        return;
+      }
+      if (delta.type === 'text_delta' && stopSequences.length > 0) {
+        writeTextDelta(key, String(delta.text ?? ''));
+        return;
+      }
+      writeDelta(key, delta);
+    },
+    closeBlock(key) {
+      if (openKey === key) {
+        closeOpenBlock();
+      }
+    },
+    finish(stopReason, stopSequence, usage) {
+      stopPings();
+      closeOpenBlock();
+      write('message_delta', {
+        type: 'message_delta',
+        delta: {
+          stop_reason: matchedStopSequence !== null ? 'stop_sequence' : stopReason,
+          stop_sequence: matchedStopSequence ?? stopSequence,
+        },
+        usage: usage ?? startUsage,
+      });
+      write('message_stop', {
+        type: 'message_stop',
+      });
+      res.end();
+    },
+  };
+}
+
+/**
+ * Streams an already complete message, for responses the proxy produces itself. Pass the
+ * request's emitter when its stream has already been started.
+ */
+export function writeAnthropicMessage(
+  res: Response,
+  message: AnthropicResponse,
+  emitter = createAnthropicStreamEmitter(res),
+): void {
+  emitter.start({ id: message.id, model: message.model }, message.usage);
+  message.content.forEach((block, index) => {
+    const key = String(index);
+    if (block.type === 'text') {
+      emitter.openBlock(key, { type: 'text', text: '' });
+      emitter.delta(key, { type: 'text_delta', text: block.text });
+    } else if (block.type === 'tool_use') {
+      emitter.openBlock(key, { ...block, input: {} });
+      emitter.delta(key, { type: 'input_json_delta', partial_json: JSON.stringify(block.input) });
+    } else {
+      emitter.openBlock(key, block);
+    }
+    emitter.closeBlock(key);
+  });
+  emitter.finish(message.stop_reason ?? 'end_turn', message.stop_sequence, message.usage);
+}
+
+interface ResponsesStreamEvent {
+  type: string;
+  response?: AzureResponsesResponseBody & {
+    error?: { code?: string; message?: string } | null;
+  };
+  item?: AzureResponseOutputItem;
+  item_id?: string;
+  output_index?: number;
+  content_index?: number;
+  summary_index?: number;
+  delta?: string;
+  arguments?: string;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Feeds an upstream SSE body to `onData` one event payload at a time. Resolves when the upstream
+ * ends or `onData` returns true, and rejects (destroying the upstream) when `onData` throws.
+ * Payloads that are not valid JSON are skipped.
+ */
+function consumeSseStream(upstream: Readable, onData: (data: string) => boolean): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    let settled = false;
+    const settle = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const parser = createParser({
+      onEvent(message: EventSourceMessage) {
+        if (settled || !message.data || message.data === '[DONE]') {
+          return;
+        }
+        try {
+          if (onData(message.data)) {
+            settle();
+            upstream.destroy();
+          }
+        } catch (error) {
+          if (error instanceof SyntaxError) {
+            return;
+          }
+          settle(error);
+          upstream.destroy();
+        }
+      },
+    });
+
+    upstream.setEncoding('utf8');
+    upstream.on('data', (chunk: string) => parser.feed(chunk));
+    upstream.on('error', (error) => settle(error));
+    upstream.on('end', () => settle());
+  });
+}
+
+/**
+ * Incrementally translates an Azure `responses` SSE stream into Anthropic message events, writing
+ * them to the client as they arrive.
+ */
+export async function pipeResponsesStream(
+  upstream: Readable,
+  res: Response,
+  requestedModel: string,
+  options: AnthropicStreamOptions = {},
+): Promise<void> {
+  const emitter = options.emitter ?? createAnthropicStreamEmitter(res, options);
+  const decodeInput = options.decodeToolInput ?? decodeToolInput;
+  const pendingToolCalls = new Map<string, PendingToolCall>();
+  let refusal = '';
+  const reasoningSummaryIndices = new Map<string, number>();
+  let sawToolCall = false;
+  let finished = false;
+
+  const ensureStarted = (response?: ResponsesStreamEvent['response']) => {
+    emitter.start({
+      id: response?.id ?? 'proxy-response',
+      model: requestedModel,
+    });
+  };
+
+  const trackToolCall = (outputIndex: number, item: AzureResponseOutputItem): PendingToolCall | null => {
+    if (item.type !== 'function_call') {
+      return null;
+    }
+    const key = `item:${outputIndex}`;
+    let call = pendingToolCalls.get(key);
+    if (!call) {
+      call = {
+        id: item.call_id ?? item.id ?? item.name ?? `tool_${outputIndex}`,
+        name: item.name ?? 'tool',
+        arguments: '',
+      };
+      pendingToolCalls.set(key, call);
+    }
+    return call;
+  };
+
+  const complete = (response: ResponsesStreamEvent['response']) => {
+    ensureStarted(response);
+    // Calls cut off by the output limit never get an output_item.done; they are reported, not run.
+    for (const [key, call] of pendingToolCalls) {
+      emitToolCall(emitter, key, call, rejectUnfinishedToolInput);
+    }
+    pendingToolCalls.clear();
+
+    const incompleteReason = response?.incomplete_details?.reason;
+    if (incompleteReason === 'content_filter') {
+      const notice = contentFilterNotice('response', filteredCategories(response?.content_filters));
+      emitter.openBlock('content_filter', { type: 'text', text: '' });
+      emitter.delta('content_filter', { type: 'text_delta', text: notice });
+      options.onRefusal?.(notice);
+    } else if (refusal) {
+      options.onRefusal?.(refusal);
+    }
+
+    finished = true;
+    emitter.finish(
+      refusal ? 'refusal' : mapStopReason(null, sawToolCall, incompleteReason),
+      null,
+      response?.usage ? azureUsageToAnthropic(response.usage) : undefined,
+    );
+    options.onUsage?.(response?.usage ?? {});
+  };
+
+  const handleEvent = (event: ResponsesStreamEvent) => {
+    switch (event.type) {
+      case 'response.created':
+      case 'response.in_progress':
+        ensureStarted(event.response);
+        break;
+      case 'response.output_item.added':
+        ensureStarted();
+        if (event.item && typeof event.output_index === 'number') {
+          trackToolCall(event.output_index, event.item);
+        }
+        break;
+      case 'response.output_text.delta':
+      case 'response.refusal.delta': {
+        ensureStarted();
+        if (!event.delta) {
+          break;
+        }
+        if (event.type === 'response.refusal.delta') {
+          refusal += event.delta;
+        }
+        const key = `text:${event.output_index ?? 0}:${event.content_index ?? 0}`;
+        emitter.openBlock(key, { type: 'text', text: '' });
+        emitter.delta(key, { type: 'text_delta', text: event.delta });
+        break;
+      }
+      case 'response.reasoning_summary_text.delta': {
+        ensureStarted();
+        if (!event.delta) {
+          break;
+        }
+        const key = `item:${event.output_index ?? 0}`;
+        const summaryIndex = event.summary_index ?? 0;
+        const previousIndex = reasoningSummaryIndices.get(key);
+        emitter.openBlock(key, { type: 'thinking', thinking: '', signature: '' });
+        reasoningSummaryIndices.set(key, summaryIndex);
+        const separator =
+          previousIndex !== undefined && previousIndex !== summaryIndex ? '\n\n' : '';
+        emitter.delta(key, { type: 'thinking_delta', thinking: `${separator}${event.delta}` });
+        break;
+      }
+      case 'response.function_call_arguments.delta': {
+        ensureStarted();
+        const key = `item:${event.output_index ?? 0}`;
+        if (!event.delta) {
+          break;
+        }
+        const call = pendingToolCalls.get(key);
+        if (call) {
+          call.arguments += event.delta;
+        }
+        break;
+      }
+      case 'response.output_item.done': {
+        ensureStarted();
+        const item = event.item;
+        const outputIndex = event.output_index ?? 0;
+        const key = `item:${outputIndex}`;
+        if (item?.type === 'function_call') {
+          const call = trackToolCall(outputIndex, item);
+          pendingToolCalls.delete(key);
+          if (call && !emitter.hasBlock(key)) {
+            if (item.arguments) {
+              call.arguments = item.arguments;
+            }
+            const decode = item.status === 'incomplete' ? rejectUnfinishedToolInput : decodeInput;
+            sawToolCall = emitToolCall(emitter, key, call, decode) || sawToolCall;
+          }
+        } else if (item?.type === 'reasoning') {
+          if (emitter.hasBlock(key)) {
+            emitter.delta(key, { type: 'signature_delta', signature: encodeReasoningSignature(item) });
+            emitter.closeBlock(key);
+            break;
+          }
+          const block = azureReasoningToAnthropic(item);
+          if (block?.type === 'thinking') {
+            emitter.openBlock(key, { type: 'thinking', thinking: '', signature: '' });
+            emitter.delta(key, { type: 'thinking_delta', thinking: block.thinking });
+            emitter.delta(key, { type: 'signature_delta', signature: block.signature });
+          } else if (block) {
+            emitter.openBlock(key, block);
+          }
+          emitter.closeBlock(key);
+        } else if (item?.type === 'message') {
+          (item.content ?? []).forEach((_block, contentIndex) => {
+            emitter.closeBlock(`text:${outputIndex}:${contentIndex}`);
+          });
+        }
+        break;
+      }
+      case 'response.completed':
+      case 'response.incomplete':
+        complete(event.response);
+        if (event.type === 'response.completed' && event.response) {
+          options.onResponse?.(event.response);
+        }
+        break;
+      case 'response.failed':
+        throw new UpstreamStreamError(
+          event.response?.error?.message ?? 'Azure OpenAI response failed',
+          event.response?.error?.code,
+        );
+      case 'error':
+        throw new UpstreamStreamError(event.message ?? 'Azure OpenAI stream error', event.code);
+      default:
+        break;
+    }
+  };
+
+  await consumeSseStream(upstream, (data) => {
+    handleEvent(JSON.parse(data) as ResponsesStreamEvent);
+    return finished || emitter.stopSequence !== null;
+  });
+
+  if (!finished && emitter.stopSequence !== null) {
+    // Cancelled upstream early; no usage was reported for the partial response.
+    emitter.finish('stop_sequence', emitter.stopSequence);
+    options.onUsage?.({});
+    return;
+  }
+  if (!finished) {
+    throw new UpstreamStreamError('Azure OpenAI stream ended before the response completed');
+  }
+}
+
+interface ChatCompletionsStreamChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    delta?: {
+      content?: string | null;
+      refusal?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+    content_filter_results?: unknown;
+  }>;
+  usage?: ChatCompletionsUsage | null;
+}
+
+/**
+ * Incrementally translates a Chat Completions SSE stream into Anthropic message events. Usage
+ * arrives in a trailing chunk (`stream_options.include_usage`), so the message is finished once
+ * the upstream sends `[DONE]` or closes.
+ */
+export async function pipeChatCompletionsStream(
+  upstream: Readable,
+  res: Response,
+  requestedModel: string,
+  options: AnthropicStreamOptions = {},
+): Promise<void> {
+  const emitter = options.emitter ?? createAnthropicStreamEmitter(res, options);
+  let finishReason: string | null = null;
+  let refusal = '';
+  const filterResults: unknown[] = [];
+  let sawToolCall = false;
+  let usage: ChatCompletionsUsage | undefined;
+  const decodeInput = options.decodeToolInput ?? decodeToolInput;
+  let pendingCall: (PendingToolCall & { key: string }) | null = null;
+  // Text that follows a tool call starts a new block, so each run of text gets its own key.
+  let textRuns = 0;
+  let textKey: string | null = null;
+
+  // Tool calls arrive one after another, so a call is complete once anything else arrives.
+  const flushPendingCall = (decode = decodeInput) => {
+    if (pendingCall) {
+      sawToolCall = emitToolCall(emitter, pendingCall.key, pendingCall, decode) || sawToolCall;
+    }
+    pendingCall = null;
+  };
+
+  await consumeSseStream(upstream, (data) => {
+    const chunk = JSON.parse(data) as ChatCompletionsStreamChunk;
+    emitter.start({ id: chunk.id ?? 'proxy-response', model: requestedModel });
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta;
+    if (delta?.refusal) {
+      refusal += delta.refusal;
+    }
+    if (choice?.content_filter_results) {
+      filterResults.push(choice.content_filter_results);
+    }
+    const text = delta?.content ?? delta?.refusal;
+    if (text) {
+      flushPendingCall();
+      if (textKey === null) {
+        textKey = `text:${textRuns}`;
+        textRuns += 1;
+      }
+      emitter.openBlock(textKey, { type: 'text', text: '' });
+      emitter.delta(textKey, { type: 'text_delta', text });
+    }
+
+    for (const call of delta?.tool_calls ?? []) {
+      textKey = null;
+      const key = `tool:${call.index ?? 0}`;
+      if (pendingCall?.key !== key) {
+        flushPendingCall();
+        pendingCall = {
+          key,
+          id: call.id ?? `tool_${call.index ?? 0}`,
+          name: call.function?.name ?? 'tool',
+          arguments: '',
+        };
+      }
+      pendingCall.arguments += call.function?.arguments ?? '';
+    }
+
+    if (choice?.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+    return emitter.stopSequence !== null;
+  });
+
+  if (emitter.stopSequence !== null) {
+    emitter.finish('stop_sequence', emitter.stopSequence, usage && azureUsageToAnthropic(usage));
+    options.onUsage?.(usage ?? {});
+    return;
+  }
+  if (!emitter.started || finishReason === null) {
+    throw new UpstreamStreamError('Chat Completions stream ended before the response completed');
+  }
+  // A call still open when the output limit or content filter hit was cut off; it is reported,
+  // not run.
+  const stoppedEarly = finishReason === 'length' || finishReason === 'content_filter';
+  flushPendingCall(stoppedEarly ? rejectUnfinishedToolInput : decodeInput);
+
+  if (finishReason === 'content_filter') {
+    const notice = contentFilterNotice('response', filteredCategories(filterResults));
+    emitter.openBlock('content_filter', { type: 'text', text: '' });
+    emitter.delta('content_filter', { type: 'text_delta', text: notice });
+    options.onRefusal?.(notice);
+  } else if (refusal) {
+    options.onRefusal?.(refusal);
+  }
+
+  emitter.finish(
+    refusal ? 'refusal' : mapChatFinishReason(finishReason, sawToolCall),
+    null,
+    usage && azureUsageToAnthropic(usage),
+  );
+  options.onUsage?.(usage ?? {});
+}
@@ -0,0 +1,164 @@
+import http from 'http';
+import https from 'https';
+import type { Duplex } from 'stream';
+import { UpstreamTimeoutError } from './errors';
+
+/**
+ * Limits for one upstream attempt, in milliseconds; 0 disables a limit.
+ */
+export interface UpstreamTimeouts {
+  /** Establishing the TCP connection. */
+  connectMs: number;
+  /** From sending the request until the response headers arrive. */
+  firstByteMs: number;
+  /** From sending the request until the response, including a streamed body, is complete. */
+  totalMs: number;
+}
+
+// High-effort reasoning can stay silent for minutes before answering.
+export const DEFAULT_UPSTREAM_TIMEOUTS: UpstreamTimeouts = {
+  connectMs: 10_000,
+  firstByteMs: 600_000,
+  totalMs: 1_200_000,
+};
+
+/**
+ * Parses a `timeouts` table (`connect_ms`, `first_byte_ms`, `total_ms`). Only the fields present
+ * are returned, so route-level tables can override the top-level one field by field.
+ */
+export function parseUpstreamTimeouts(raw: unknown, path: string): Partial<UpstreamTimeouts> {
+  if (raw === undefined) {
+    return {};
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${path} must be a table`);
+  }
+  const timeouts: Partial<UpstreamTimeouts> = {};
+  const fields: Array<[keyof UpstreamTimeouts, string]> = [
+    ['connectMs', 'connect_ms'],
+    ['firstByteMs', 'first_byte_ms'],
+    ['totalMs', 'total_ms'],
+  ];
+  for (const [key, field] of fields) {
+    const value = (raw as Record<string, unknown>)[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${path}.${field} must be a number >= 0`);
+    }
+    timeouts[key] = value;
+  }
+  return timeouts;
+}
+
+function guardConnect(socket: Duplex | null | undefined, connectMs: number): void {
+  if (!socket || connectMs <= 0) {
+    return;
+  }
+  const timer = setTimeout(
+    () => socket.destroy(new UpstreamTimeoutError('connect', connectMs)),
+    connectMs,
+  );
+  const clear = () => clearTimeout(timer);
+  socket.once('connect', clear);
+  socket.once('close', clear);
+}
+
+interface UpstreamAgents {
+  httpAgent: http.Agent;
+  httpsAgent: https.Agent;
+}
+
+const agentsByConnectTimeout = new Map<number, UpstreamAgents>();
+
+/**
+ * Keep-alive agents that fail new connections not established within `connectMs`. Node has no
+ * connect timeout of its own, and axios' `timeout` also covers the response.
+ */
+export function connectTimeoutAgents(connectMs: number): UpstreamAgents {
+  let agents = agentsByConnectTimeout.get(connectMs);
+  if (!agents) {
+    class HttpAgent extends http.Agent {
+      createConnection(...args: Parameters<http.Agent['createConnection']>) {
+        const socket = super.createConnection(...args);
+        guardConnect(socket, connectMs);
+        return socket;
+      }
+    }
+    class HttpsAgent extends https.Agent {
+      createConnection(...args: Parameters<http.Agent['createConnection']>) {
+        const socket = super.createConnection(...args);
+        guardConnect(socket, connectMs);
+        return socket;
+      }
+    }
+    agents = {
+      httpAgent: new HttpAgent({ keepAlive: true }),
+      httpsAgent: new HttpsAgent({ keepAlive: true }),
+    };
+    agentsByConnectTimeout.set(connectMs, agents);
+  }
+  return agents;
+}
+
+export interface UpstreamAttempt {
+  /** Aborted when a timeout fires or the client goes away. */
+  signal: AbortSignal;
+  /** Stops the first-byte timer; call once the response headers have arrived. */
+  receivedFirstByte(): void;
+  /** Stops all timers; call once the response has been consumed or abandoned. */
+  finish(): void;
+  /**
+   * The timeout behind `error`, when the attempt failed because one fired.
+   */
+  timeoutError(error: unknown): UpstreamTimeoutError | undefined;
+}
+
+/**
+ * Starts the first-byte and total timers for one upstream attempt. The returned signal is also
+ * aborted when `clientSignal` is, so a client disconnect cancels the upstream request.
+ */
+export function startUpstreamAttempt(
+  timeouts: UpstreamTimeouts,
+  clientSignal: AbortSignal,
+): UpstreamAttempt {
+  const controller = new AbortController();
+  const timers: NodeJS.Timeout[] = [];
+  const arm = (phase: 'first_byte' | 'total', ms: number) => {
+    if (ms <= 0) {
+      return undefined;
+    }
+    const timer = setTimeout(() => controller.abort(new UpstreamTimeoutError(phase, ms)), ms);
+    timers.push(timer);
+    return timer;
+  };
+  const firstByteTimer = arm('first_byte', timeouts.firstByteMs);
+  arm('total', timeouts.totalMs);
+
+  const onClientAbort = () => controller.abort(clientSignal.reason);
+  if (clientSignal.aborted) {
+    onClientAbort();
+  } else {
+    clientSignal.addEventListener('abort', onClientAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    receivedFirstByte() {
+      clearTimeout(firstByteTimer);
+    },
+    finish() {
+      timers.forEach((timer) => clearTimeout(timer));
+      clientSignal.removeEventListener('abort', onClientAbort);
+    },
+    timeoutError(error) {
+      if (controller.signal.reason instanceof UpstreamTimeoutError) {
+        return controller.signal.reason;
+      }
+      // Connect timeouts destroy the socket, so axios reports them as the cause.
+      const cause = (error as { cause?: unknown } | undefined)?.cause;
+      return cause instanceof UpstreamTimeoutError ? cause : undefined;
+    },
+  };
+}
@@ -0,0 +1,182 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import type { AzureContentBlock, AzureResponsesRequestBody, AzureToolDefinition } from './converters';
+
+// Framing overheads follow OpenAI's published token counting guidance.
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_FOR_REPLY_PRIMING = 3;
+const TOKENS_PER_TOOL = 8;
+const TOKENS_FOR_TOOL_BLOCK = 12;
+const TOKENS_PER_FUNCTION_CALL = 4;
+
+const IMAGE_BASE_TOKENS = 85;
+const IMAGE_TOKENS_PER_TILE = 170;
+// Used when an image's dimensions cannot be read (remote URLs, unknown formats): a 1024x1024 image.
+const IMAGE_DEFAULT_TOKENS = IMAGE_BASE_TOKENS + IMAGE_TOKENS_PER_TILE * 4;
+
+// Upstreams bill each PDF page as extracted text plus a page image; this is a typical page.
+const TOKENS_PER_DOCUMENT_PAGE = 1_500;
+const BYTES_PER_DOCUMENT_TOKEN = 4;
+
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * GPT-4o and later (gpt-4.1, gpt-5, o-series, codex) use o200k; GPT-4 and GPT-3.5 use cl100k.
+ */
+export function encodingForModel(model: string): TiktokenEncoding {
+  const normalized = model.toLowerCase();
+  if (/^gpt-?(3\.5|35|4)(-|$)/.test(normalized)) {
+    return 'cl100k_base';
+  }
+  return 'o200k_base';
+}
+
+function loadEncoding(name: TiktokenEncoding): Tiktoken {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+}
+
+/**
+ * Special-token markers such as `<|endoftext|>` are ordinary text in prompts (code and docs
+ * mention them), and the upstream counts them as such; js-tiktoken would otherwise throw.
+ */
+function countTextTokens(encoding: Tiktoken, text: string): number {
+  return encoding.encode(text, [], []).length;
+}
+
+function readImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR width/height at fixed offsets.
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  // GIF: little-endian logical screen size.
+  if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  // JPEG: walk the segments up to the first start-of-frame marker.
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return null;
+      }
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+/**
+ * High-detail image cost: fit within 2048x2048, scale the short side down to 768, then charge
+ * per 512px tile.
+ */
+function countImageTokens(imageUrl: string | undefined): number {
+  const match = imageUrl?.match(/^data:[^;,]+;base64,(.*)$/);
+  if (!match) {
+    return IMAGE_DEFAULT_TOKENS;
+  }
+  // The headers we sniff live in the first few KB; avoid decoding whole screenshots.
+  const dimensions = readImageDimensions(Buffer.from(match[1].slice(0, 64 * 1024), 'base64'));
+  if (!dimensions || dimensions.width <= 0 || dimensions.height <= 0) {
+    return IMAGE_DEFAULT_TOKENS;
+  }
+
+  let { width, height } = dimensions;
+  const fitScale = Math.min(1, 2048 / Math.max(width, height));
+  width *= fitScale;
+  height *= fitScale;
+  const shortScale = Math.min(1, 768 / Math.min(width, height));
+  width *= shortScale;
+  height *= shortScale;
+
+  const tiles = Math.ceil(width / 512) * Math.ceil(height / 512);
+  return IMAGE_BASE_TOKENS + IMAGE_TOKENS_PER_TILE * tiles;
+}
+
+function countFileTokens(fileData: string | undefined): number {
+  const match = fileData?.match(/^data:[^;,]+;base64,(.*)$/);
+  if (!match) {
+    return TOKENS_PER_DOCUMENT_PAGE;
+  }
+  const bytes = Buffer.from(match[1], 'base64');
+  const pages = bytes.toString('latin1').match(/\/Type\s*\/Page(?!s)\b/g)?.length ?? 0;
+  if (pages > 0) {
+    return pages * TOKENS_PER_DOCUMENT_PAGE;
+  }
+  return Math.ceil(bytes.length / BYTES_PER_DOCUMENT_TOKEN);
+}
+
+function countContentTokens(encoding: Tiktoken, content: AzureContentBlock[]): number {
+  let tokens = 0;
+  for (const block of content) {
+    if (block.type === 'input_image') {
+      tokens += countImageTokens('image_url' in block ? block.image_url : undefined);
+    } else if (block.type === 'input_file') {
+      tokens += countFileTokens(block.file_data);
+    } else if (block.type !== 'tool_calls' && 'text' in block) {
+      tokens += countTextTokens(encoding, block.text);
+    }
+  }
+  return tokens;
+}
+
+function countToolTokens(encoding: Tiktoken, tools: AzureToolDefinition[]): number {
+  let tokens = TOKENS_FOR_TOOL_BLOCK;
+  for (const tool of tools) {
+    tokens += TOKENS_PER_TOOL;
+    tokens += countTextTokens(encoding, tool.name ?? '');
+    tokens += countTextTokens(encoding, tool.description ?? '');
+    tokens += countTextTokens(encoding, JSON.stringify(tool.parameters ?? {}));
+  }
+  return tokens;
+}
+
+/**
+ * Estimates the input tokens of a translated request locally, without calling the upstream.
+ */
+export function countRequestTokens(request: AzureResponsesRequestBody): number {
+  const encoding = loadEncoding(encodingForModel(request.model));
+  let tokens = TOKENS_FOR_REPLY_PRIMING;
+
+  for (const item of request.input) {
+    switch (item.type) {
+      case 'message':
+        tokens += TOKENS_PER_MESSAGE + countContentTokens(encoding, item.content);
+        break;
+      case 'function_call':
+        tokens += TOKENS_PER_FUNCTION_CALL;
+        tokens += countTextTokens(encoding, item.name) + countTextTokens(encoding, item.arguments);
+        break;
+      case 'function_call_output':
+        tokens +=
+          TOKENS_PER_MESSAGE +
+          (typeof item.output === 'string'
+            ? countTextTokens(encoding, item.output)
+            : countContentTokens(encoding, item.output));
+        break;
+      case 'reasoning':
+        for (const part of item.summary) {
+          tokens += countTextTokens(encoding, part.text);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    tokens += countToolTokens(encoding, request.tools);
+  }
+
+  return tokens;
+}
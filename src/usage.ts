@@ -0,0 +1,364 @@
+import fs from 'fs';
+import type { AzureUsage } from './converters';
+import { AnthropicApiError } from './errors';
+import { modelMatches } from './routing';
+
+export interface TokenCounts {
+  /** Uncached input tokens. */
+  input_tokens: number;
+  cached_tokens: number;
+  /** Output tokens, reasoning included. */
+  output_tokens: number;
+  reasoning_tokens: number;
+}
+
+/**
+ * One line of the usage log: a request the proxy finished serving, successfully or not.
+ */
+export interface UsageRecord extends TokenCounts {
+  timestamp: string;
+  /** Label of the client key, when clients authenticate with their own keys. */
+  client?: string;
+  /** The model name the client asked for. */
+  model: string;
+  provider?: string;
+  deployment?: string;
+  latency_ms: number;
+  status: number;
+  cost_usd?: number;
+}
+
+/**
+ * USD per million tokens, by deployment name glob; the first match wins.
+ */
+export type PriceTable = Array<{ match: string; input: number; cachedInput: number; output: number }>;
+
+// List prices of the models deployments are usually named after; more specific names first.
+export const DEFAULT_PRICES: PriceTable = [
+  { match: 'gpt-5-nano*', input: 0.05, cachedInput: 0.005, output: 0.4 },
+  { match: 'gpt-5-mini*', input: 0.25, cachedInput: 0.025, output: 2 },
+  { match: 'gpt-5*', input: 1.25, cachedInput: 0.125, output: 10 },
+  { match: 'gpt-4.1-nano*', input: 0.1, cachedInput: 0.025, output: 0.4 },
+  { match: 'gpt-4.1-mini*', input: 0.4, cachedInput: 0.1, output: 1.6 },
+  { match: 'gpt-4.1*', input: 2, cachedInput: 0.5, output: 8 },
+  { match: 'gpt-4o-mini*', input: 0.15, cachedInput: 0.075, output: 0.6 },
+  { match: 'gpt-4o*', input: 2.5, cachedInput: 1.25, output: 10 },
+  { match: 'o4-mini*', input: 1.1, cachedInput: 0.275, output: 4.4 },
+  { match: 'o3*', input: 2, cachedInput: 0.5, output: 8 },
+];
+
+export interface UsageConfig {
+  /** The JSONL file records are appended to; `false` disables recording. */
+  log: string | false;
+  prices: PriceTable;
+  dailyBudgetUsd?: number;
+  monthlyBudgetUsd?: number;
+}
+
+export const DEFAULT_USAGE_LOG = 'openai-claude-usage.jsonl';
+
+function parsePrice(raw: Record<string, unknown>, field: string, path: string): number {
+  const value = raw[field];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${path}.${field} must be a number >= 0`);
+  }
+  return value;
+}
+
+function parseBudget(raw: Record<string, unknown>, field: string): number | undefined {
+  const value = raw[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`usage.${field} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Parses the `[usage]` table: `log`, `daily_budget_usd`, `monthly_budget_usd` and the
+ * `[usage.prices."<deployment glob>"]` tables (`input`, `cached_input` and `output` in USD per
+ * million tokens), which take precedence over the built-in prices.
+ */
+export function parseUsageConfig(raw: unknown): UsageConfig {
+  if (raw !== undefined && (!raw || typeof raw !== 'object' || Array.isArray(raw))) {
+    throw new Error('usage must be a table');
+  }
+  const table = (raw ?? {}) as Record<string, unknown>;
+
+  const log = table.log ?? DEFAULT_USAGE_LOG;
+  if (log !== false && (typeof log !== 'string' || log.length === 0)) {
+    throw new Error('usage.log must be a file path or false');
+  }
+
+  const rawPrices = table.prices ?? {};
+  if (!rawPrices || typeof rawPrices !== 'object' || Array.isArray(rawPrices)) {
+    throw new Error('usage.prices must be a table of deployment names to prices');
+  }
+  const prices: PriceTable = Object.entries(rawPrices as Record<string, unknown>).map(
+    ([match, value]) => {
+      const path = `usage.prices.${match}`;
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${path} must be a table`);
+      }
+      const price = value as Record<string, unknown>;
+      const input = parsePrice(price, 'input', path);
+      return {
+        match,
+        input,
+        cachedInput: price.cached_input === undefined ? input : parsePrice(price, 'cached_input', path),
+        output: parsePrice(price, 'output', path),
+      };
+    },
+  );
+
+  return {
+    log: log as string | false,
+    prices: [...prices, ...DEFAULT_PRICES],
+    dailyBudgetUsd: parseBudget(table, 'daily_budget_usd'),
+    monthlyBudgetUsd: parseBudget(table, 'monthly_budget_usd'),
+  };
+}
+
+/**
+ * Splits upstream usage (Responses or Chat Completions) into the counts that are billed
+ * differently.
+ */
+export function usageTokens(usage: AzureUsage | null | undefined): TokenCounts {
+  const totalInput = usage?.input_tokens ?? usage?.prompt_tokens ?? 0;
+  const cached =
+    usage?.input_tokens_details?.cached_tokens ?? usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    input_tokens: Math.max(0, totalInput - cached),
+    cached_tokens: cached,
+    output_tokens: usage?.output_tokens ?? usage?.completion_tokens ?? 0,
+    reasoning_tokens: usage?.output_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+export function addTokenCounts(total: TokenCounts, counts: TokenCounts): void {
+  total.input_tokens += counts.input_tokens;
+  total.cached_tokens += counts.cached_tokens;
+  total.output_tokens += counts.output_tokens;
+  total.reasoning_tokens += counts.reasoning_tokens;
+}
+
+/**
+ * Estimated cost in USD, or `undefined` when no price is known for the deployment.
+ */
+export function estimateCost(
+  deployment: string | undefined,
+  counts: TokenCounts,
+  prices: PriceTable,
+): number | undefined {
+  const price = deployment ? prices.find((entry) => modelMatches(entry.match, deployment)) : undefined;
+  if (!price) {
+    return undefined;
+  }
+  const cost =
+    counts.input_tokens * price.input +
+    counts.cached_tokens * price.cachedInput +
+    counts.output_tokens * price.output;
+  // Rounded to a millionth of a dollar so the log stays readable.
+  return Math.round(cost) / 1_000_000;
+}
+
+export function readUsageRecords(logPath: string): UsageRecord[] {
+  if (!fs.existsSync(logPath)) {
+    return [];
+  }
+  const records: UsageRecord[] = [];
+  for (const line of fs.readFileSync(logPath, 'utf8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as UsageRecord);
+    } catch {
+      // A line cut short by a crash; the rest of the log is still usable.
+    }
+  }
+  return records;
+}
+
+export type UsageGrouping = 'day' | 'month' | 'model' | 'deployment' | 'client';
+
+export interface UsageSummaryRow extends TokenCounts {
+  key: string;
+  requests: number;
+  errors: number;
+  cost_usd: number;
+}
+
+function groupKey(record: UsageRecord, groupBy: UsageGrouping): string {
+  switch (groupBy) {
+    case 'day':
+      return record.timestamp.slice(0, 10);
+    case 'month':
+      return record.timestamp.slice(0, 7);
+    case 'model':
+      return record.model || '(none)';
+    case 'deployment':
+      return record.deployment ?? '(none)';
+    case 'client':
+      return record.client ?? '(none)';
+  }
+}
+
+/**
+ * Totals per day, month, model, deployment or client, sorted by key, followed by a `total` row.
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  groupBy: UsageGrouping,
+  filter: { since?: string; client?: string } = {},
+): UsageSummaryRow[] {
+  const emptyRow = (key: string): UsageSummaryRow => ({
+    key,
+    requests: 0,
+    errors: 0,
+    input_tokens: 0,
+    cached_tokens: 0,
+    output_tokens: 0,
+    reasoning_tokens: 0,
+    cost_usd: 0,
+  });
+  const rows = new Map<string, UsageSummaryRow>();
+  const total = emptyRow('total');
+
+  for (const record of records) {
+    if (filter.since && record.timestamp < filter.since) {
+      continue;
+    }
+    if (filter.client !== undefined && record.client !== filter.client) {
+      continue;
+    }
+    const key = groupKey(record, groupBy);
+    let row = rows.get(key);
+    if (!row) {
+      row = emptyRow(key);
+      rows.set(key, row);
+    }
+    for (const target of [row, total]) {
+      target.requests += 1;
+      target.errors += record.status >= 400 ? 1 : 0;
+      addTokenCounts(target, record);
+      target.cost_usd += record.cost_usd ?? 0;
+    }
+  }
+
+  return [...[...rows.values()].sort((a, b) => a.key.localeCompare(b.key)), total].map((row) => ({
+    ...row,
+    cost_usd: Math.round(row.cost_usd * 1_000_000) / 1_000_000,
+  }));
+}
+
+export function formatUsageTable(rows: UsageSummaryRow[], groupBy: UsageGrouping): string {
+  const header = [groupBy, 'requests', 'errors', 'input', 'cached', 'output', 'reasoning', 'cost_usd'];
+  const lines = rows.map((row) => [
+    row.key,
+    String(row.requests),
+    String(row.errors),
+    String(row.input_tokens),
+    String(row.cached_tokens),
+    String(row.output_tokens),
+    String(row.reasoning_tokens),
+    row.cost_usd.toFixed(4),
+  ]);
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...lines.map((line) => line[column].length)),
+  );
+  return [header, ...lines]
+    .map((line) =>
+      line
+        .map((cell, column) =>
+          column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]),
+        )
+        .join('  '),
+    )
+    .join('\n');
+}
+
+export interface UsageLedger {
+  /**
+   * Throws Anthropic's usage limit error once the daily or monthly budget is spent.
+   */
+  checkBudget(): void;
+  record(record: Omit<UsageRecord, 'cost_usd'>): void;
+}
+
+/**
+ * Appends usage records to the JSONL log and tracks spend against the budgets. The current day's
+ * and month's spend is read back from the log at startup, so restarts do not reset the budgets.
+ */
+export function createUsageLedger(config: UsageConfig): UsageLedger {
+  const logPath = config.log || undefined;
+  const month = (timestamp: string) => timestamp.slice(0, 7);
+  const day = (timestamp: string) => timestamp.slice(0, 10);
+  const spend = { day: day(new Date().toISOString()), dayUsd: 0, month: '', monthUsd: 0 };
+  spend.month = month(spend.day);
+
+  const addSpend = (timestamp: string, cost: number) => {
+    if (day(timestamp) !== spend.day) {
+      spend.day = day(timestamp);
+      spend.dayUsd = 0;
+    }
+    if (month(timestamp) !== spend.month) {
+      spend.month = month(timestamp);
+      spend.monthUsd = 0;
+    }
+    spend.dayUsd += cost;
+    spend.monthUsd += cost;
+  };
+
+  if (logPath) {
+    for (const record of readUsageRecords(logPath)) {
+      if (month(record.timestamp) === spend.month) {
+        spend.monthUsd += record.cost_usd ?? 0;
+        if (day(record.timestamp) === spend.day) {
+          spend.dayUsd += record.cost_usd ?? 0;
+        }
+      }
+    }
+  }
+
+  // Appends are chained so records land in the order requests finished.
+  let pendingWrite = Promise.resolve();
+
+  return {
+    checkBudget() {
+      const now = new Date().toISOString();
+      addSpend(now, 0);
+      const exceeded =
+        config.dailyBudgetUsd !== undefined && spend.dayUsd >= config.dailyBudgetUsd
+          ? `daily budget of $${config.dailyBudgetUsd}`
+          : config.monthlyBudgetUsd !== undefined && spend.monthUsd >= config.monthlyBudgetUsd
+            ? `monthly budget of $${config.monthlyBudgetUsd}`
+            : undefined;
+      if (exceeded) {
+        throw new AnthropicApiError(
+          400,
+          'invalid_request_error',
+          `You have reached the proxy's ${exceeded}. Requests will resume when the budget resets.`,
+        );
+      }
+    },
+
+    record(entry) {
+      const cost = estimateCost(entry.deployment, entry, config.prices);
+      const record: UsageRecord = cost === undefined ? entry : { ...entry, cost_usd: cost };
+      addSpend(record.timestamp, cost ?? 0);
+      if (!logPath) {
+        return;
+      }
+      const line = `${JSON.stringify(record)}\n`;
+      pendingWrite = pendingWrite
+        .then(() => fs.promises.appendFile(logPath, line))
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Could not write usage record to ${logPath}: ${message}`);
+        });
+    },
+  };
+}
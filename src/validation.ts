@@ -0,0 +1,258 @@
+import type { AnthropicRequest } from './converters';
+import { InvalidRequestError } from './errors';
+
+// Paths use Anthropic's own error notation (`messages.1.content.0.source.data`), so clients see
+// the same messages the real API would produce.
+type Path = Array<string | number>;
+
+function fail(path: Path, problem: string): never {
+  throw new InvalidRequestError(path.length > 0 ? `${path.join('.')}: ${problem}` : problem);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: Path): Record<string, unknown> {
+  if (!isObject(value)) {
+    fail(path, 'Input should be an object');
+  }
+  return value;
+}
+
+function expectString(record: Record<string, unknown>, key: string, path: Path, required = true): void {
+  const value = record[key];
+  if (value === undefined) {
+    if (required) {
+      fail([...path, key], 'Field required');
+    }
+    return;
+  }
+  if (typeof value !== 'string') {
+    fail([...path, key], 'Input should be a valid string');
+  }
+}
+
+function expectNumber(
+  record: Record<string, unknown>,
+  key: string,
+  path: Path,
+  range: { min?: number; max?: number; integer?: boolean } = {},
+): void {
+  const value = record[key];
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail([...path, key], 'Input should be a valid number');
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    fail([...path, key], 'Input should be a valid integer');
+  }
+  if (range.min !== undefined && value < range.min) {
+    fail([...path, key], `Input should be greater than or equal to ${range.min}`);
+  }
+  if (range.max !== undefined && value > range.max) {
+    fail([...path, key], `Input should be less than or equal to ${range.max}`);
+  }
+}
+
+function expectBoolean(record: Record<string, unknown>, key: string, path: Path): void {
+  const value = record[key];
+  if (value !== undefined && typeof value !== 'boolean') {
+    fail([...path, key], 'Input should be a valid boolean');
+  }
+}
+
+function expectOneOf(value: unknown, allowed: readonly string[], path: Path): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    fail(path, `Input should be ${allowed.map((option) => `'${option}'`).join(', ')}`);
+  }
+}
+
+function validateImageSource(value: unknown, path: Path): void {
+  const source = expectObject(value, path);
+  expectOneOf(source.type, ['base64', 'url', 'input_image_url'], [...path, 'type']);
+  if (source.type === 'base64') {
+    expectString(source, 'media_type', path, false);
+    expectString(source, 'data', path);
+  } else {
+    expectString(source, 'url', path);
+  }
+}
+
+function validateDocumentSource(value: unknown, path: Path): void {
+  const source = expectObject(value, path);
+  expectOneOf(source.type, ['base64', 'text', 'content', 'url'], [...path, 'type']);
+  switch (source.type) {
+    case 'base64':
+      expectString(source, 'media_type', path);
+      expectString(source, 'data', path);
+      break;
+    case 'text':
+      expectString(source, 'data', path);
+      break;
+    case 'content':
+      if (typeof source.content !== 'string') {
+        validateBlocks(source.content, [...path, 'content'], ['text', 'image']);
+      }
+      break;
+    default:
+      expectString(source, 'url', path);
+  }
+}
+
+function validateBlock(value: unknown, path: Path, allowedTypes?: readonly string[]): void {
+  // Bare strings are shorthand for text blocks.
+  if (typeof value === 'string' && (!allowedTypes || allowedTypes.includes('text'))) {
+    return;
+  }
+  const block = expectObject(value, path);
+  expectString(block, 'type', path);
+  if (allowedTypes) {
+    expectOneOf(block.type, allowedTypes, [...path, 'type']);
+  }
+
+  switch (block.type) {
+    case 'text':
+      expectString(block, 'text', path);
+      break;
+    case 'image':
+      validateImageSource(block.source, [...path, 'source']);
+      break;
+    case 'document':
+      validateDocumentSource(block.source, [...path, 'source']);
+      expectString(block, 'title', path, false);
+      expectString(block, 'context', path, false);
+      break;
+    case 'tool_use':
+      expectString(block, 'id', path);
+      expectString(block, 'name', path);
+      // Not necessarily an object: calls to tools with a non-object input schema carry the bare
+      // value the proxy unwrapped for the client.
+      break;
+    case 'tool_result':
+      expectString(block, 'tool_use_id', path);
+      expectBoolean(block, 'is_error', path);
+      if (block.content !== undefined && typeof block.content !== 'string') {
+        validateBlocks(block.content, [...path, 'content'], ['text', 'image', 'document']);
+      }
+      break;
+    case 'thinking':
+      expectString(block, 'thinking', path);
+      expectString(block, 'signature', path, false);
+      break;
+    case 'redacted_thinking':
+      expectString(block, 'data', path);
+      break;
+    default:
+      // Block types the proxy cannot translate are reported by the converter.
+      break;
+  }
+}
+
+function validateBlocks(value: unknown, path: Path, allowedTypes?: readonly string[]): void {
+  if (!Array.isArray(value)) {
+    fail(path, 'Input should be a valid list');
+  }
+  value.forEach((block, index) => validateBlock(block, [...path, index], allowedTypes));
+}
+
+function validateToolChoice(value: unknown): void {
+  // The bare string forms predate the object form and are still accepted.
+  if (typeof value === 'string') {
+    expectOneOf(value, ['auto', 'any', 'none'], ['tool_choice']);
+    return;
+  }
+  const toolChoice = expectObject(value, ['tool_choice']);
+  expectOneOf(toolChoice.type, ['auto', 'any', 'none', 'tool'], ['tool_choice', 'type']);
+  if (toolChoice.type === 'tool') {
+    expectString(toolChoice, 'name', ['tool_choice']);
+  }
+  expectBoolean(toolChoice, 'disable_parallel_tool_use', ['tool_choice']);
+}
+
+/**
+ * Checks a Messages API request body against the schema the converter relies on. Unknown
+ * top-level fields (beta features) are tolerated; malformed known fields are rejected with the
+ * JSON path of the offending value.
+ */
+export function validateAnthropicRequest(body: unknown): asserts body is AnthropicRequest {
+  const request = expectObject(body, []);
+
+  expectString(request, 'model', [], false);
+  expectNumber(request, 'max_tokens', [], { min: 1, integer: true });
+  expectNumber(request, 'temperature', [], { min: 0, max: 1 });
+  expectNumber(request, 'top_p', [], { min: 0, max: 1 });
+  expectNumber(request, 'top_k', [], { min: 0, integer: true });
+  expectBoolean(request, 'stream', []);
+
+  if (request.system !== undefined && typeof request.system !== 'string') {
+    validateBlocks(request.system, ['system'], ['text']);
+  }
+
+  if (request.stop_sequences !== undefined) {
+    if (!Array.isArray(request.stop_sequences)) {
+      fail(['stop_sequences'], 'Input should be a valid list');
+    }
+    request.stop_sequences.forEach((sequence, index) => {
+      if (typeof sequence !== 'string') {
+        fail(['stop_sequences', index], 'Input should be a valid string');
+      }
+    });
+  }
+
+  if (request.metadata !== undefined) {
+    const metadata = expectObject(request.metadata, ['metadata']);
+    if (metadata.user_id !== null) {
+      expectString(metadata, 'user_id', ['metadata'], false);
+    }
+  }
+
+  if (request.thinking !== undefined) {
+    const thinking = expectObject(request.thinking, ['thinking']);
+    expectOneOf(thinking.type, ['enabled', 'disabled'], ['thinking', 'type']);
+    if (thinking.type === 'enabled') {
+      if (thinking.budget_tokens === undefined) {
+        fail(['thinking', 'budget_tokens'], 'Field required');
+      }
+      expectNumber(thinking, 'budget_tokens', ['thinking'], { min: 1, integer: true });
+    }
+  }
+
+  if (request.tools !== undefined) {
+    if (!Array.isArray(request.tools)) {
+      fail(['tools'], 'Input should be a valid list');
+    }
+    request.tools.forEach((value, index) => {
+      const tool = expectObject(value, ['tools', index]);
+      expectString(tool, 'name', ['tools', index]);
+      expectString(tool, 'description', ['tools', index], false);
+      if (tool.input_schema !== undefined) {
+        expectObject(tool.input_schema, ['tools', index, 'input_schema']);
+      }
+    });
+  }
+
+  if (request.tool_choice !== undefined) {
+    validateToolChoice(request.tool_choice);
+  }
+
+  if (!Array.isArray(request.messages)) {
+    fail(['messages'], request.messages === undefined ? 'Field required' : 'Input should be a valid list');
+  }
+  if (request.messages.length === 0) {
+    fail(['messages'], 'List should have at least 1 item');
+  }
+  request.messages.forEach((value, index) => {
+    const path = ['messages', index];
+    const message = expectObject(value, path);
+    expectOneOf(message.role, ['user', 'assistant', 'system'], [...path, 'role']);
+    if (message.content === undefined) {
+      fail([...path, 'content'], 'Field required');
+    }
+    if (typeof message.content !== 'string') {
+      validateBlocks(message.content, [...path, 'content']);
+    }
+  });
+}
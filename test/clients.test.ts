@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import {
+  ClientKey,
+  createClientQuotas,
+  createStaticClientRegistry,
+  isModelAllowed,
+  parseClientKeys,
+} from '../src/clients';
+import { AnthropicApiError } from '../src/errors';
+import type { UsageRecord } from '../src/usage';
+
+const NOON = Date.parse('2026-03-10T12:00:00Z');
+
+function usage(timestamp: string, client: string | undefined, tokens: number): UsageRecord {
+  return {
+    timestamp,
+    client,
+    model: 'claude-sonnet-4',
+    input_tokens: tokens,
+    cached_tokens: 0,
+    output_tokens: 0,
+    reasoning_tokens: 0,
+    latency_ms: 100,
+    status: 200,
+  };
+}
+
+const isRateLimit = (error: unknown) =>
+  error instanceof AnthropicApiError && error.status === 429 && error.type === 'rate_limit_error';
+
+describe('parseClientKeys', () => {
+  it('parses keys with their limits', () => {
+    const [alice] = parseClientKeys({
+      keys: [
+        {
+          label: 'alice',
+          key: 'sk-alice',
+          models: ['claude-sonnet*'],
+          requests_per_minute: 30,
+          tokens_per_day: 5000,
+        },
+      ],
+    });
+    assert.equal(alice.label, 'alice');
+    assert.deepEqual(alice.models, ['claude-sonnet*']);
+    assert.equal(alice.requestsPerMinute, 30);
+    assert.equal(alice.tokensPerDay, 5000);
+    assert.equal(alice.enabled, true);
+    // Only a digest of the key is kept.
+    assert.equal(alice.keyDigest.length, 32);
+  });
+
+  it('rejects malformed files', () => {
+    assert.throws(() => parseClientKeys({}), /keys array/);
+    assert.throws(() => parseClientKeys({ keys: [{ key: 'sk-1' }] }), /keys\[0\]\.label/);
+    assert.throws(
+      () =>
+        parseClientKeys({
+          keys: [
+            { label: 'ci', key: 'sk-1' },
+            { label: 'ci', key: 'sk-2' },
+          ],
+        }),
+      /keys\[1\]\.label 'ci' is used by another key/,
+    );
+    assert.throws(
+      () => parseClientKeys({ keys: [{ label: 'ci', key: 'sk-1', tokens_per_day: 1.5 }] }),
+      /keys\[0\]\.tokens_per_day must be a positive integer/,
+    );
+  });
+});
+
+describe('client authentication', () => {
+  it('finds the client owning a key', () => {
+    const registry = createStaticClientRegistry('default', 'sk-shared');
+    assert.equal(registry.authenticate('sk-shared')?.label, 'default');
+    assert.equal(registry.authenticate('sk-other'), undefined);
+    assert.equal(registry.authenticate(undefined), undefined);
+  });
+
+  it('limits clients to their model globs', () => {
+    const [ci, anyone] = parseClientKeys({
+      keys: [
+        { label: 'ci', key: 'sk-1', models: ['claude-haiku*', 'gpt-5'] },
+        { label: 'anyone', key: 'sk-2' },
+      ],
+    });
+    assert.equal(isModelAllowed(ci, ['claude-haiku-4-5', 'gpt-5-mini']), true);
+    assert.equal(isModelAllowed(ci, ['claude-opus-4', 'gpt-5']), true);
+    assert.equal(isModelAllowed(ci, ['claude-opus-4', 'gpt-5-mini']), false);
+    assert.equal(isModelAllowed(anyone, ['claude-opus-4', undefined]), true);
+  });
+});
+
+describe('createClientQuotas', () => {
+  let bob: ClientKey;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOON });
+    [bob] = parseClientKeys({ keys: [{ label: 'bob', key: 'sk-bob', tokens_per_day: 1000 }] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('starts from the tokens the usage log recorded today', () => {
+    const quotas = createClientQuotas([
+      usage('2026-03-09T23:00:00.000Z', 'bob', 5000),
+      usage('2026-03-10T08:00:00.000Z', 'bob', 600),
+      usage('2026-03-10T09:00:00.000Z', 'alice', 5000),
+      usage('2026-03-10T10:00:00.000Z', undefined, 5000),
+    ]);
+    quotas.admit(bob);
+    quotas.recordTokens(bob, 400);
+    assert.throws(() => quotas.admit(bob), isRateLimit);
+  });
+
+  it('resets the daily tokens at UTC midnight', () => {
+    const quotas = createClientQuotas();
+    quotas.recordTokens(bob, 1000);
+    assert.throws(
+      () => quotas.admit(bob),
+      (error) => isRateLimit(error) && (error as AnthropicApiError).headers['retry-after'] === '43200',
+    );
+    mock.timers.tick(12 * 60 * 60 * 1000);
+    quotas.admit(bob);
+  });
+
+  it('allows a number of requests per sliding minute', () => {
+    const [alice] = parseClientKeys([{ label: 'alice', key: 'sk-alice', requests_per_minute: 2 }]);
+    const quotas = createClientQuotas();
+    quotas.admit(alice);
+    mock.timers.tick(30_000);
+    quotas.admit(alice);
+    assert.throws(() => quotas.admit(alice), isRateLimit);
+    // The first request leaves the window a minute after it was made.
+    mock.timers.tick(30_001);
+    quotas.admit(alice);
+  });
+});
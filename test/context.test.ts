@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { fitToContextWindow, parseContextWindows, resolveContextWindow } from '../src/context';
+import type { AzureFunctionCallOutput, AzureResponsesRequestBody } from '../src/converters';
+import { InvalidRequestError } from '../src/errors';
+import { countRequestTokens } from '../src/tokens';
+
+const LONG_OUTPUT = 'lorem ipsum dolor sit amet '.repeat(400);
+
+/**
+ * Two steps of reading a file: the first result is old history, the second is what the model is
+ * about to act on.
+ */
+function twoReads(): AzureResponsesRequestBody {
+  return {
+    model: 'gpt-5',
+    input: [
+      { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Read both files' }] },
+      { type: 'function_call', call_id: 'call_1', name: 'Read', arguments: '{"path":"a.txt"}' },
+      { type: 'function_call_output', call_id: 'call_1', output: LONG_OUTPUT },
+      { type: 'function_call', call_id: 'call_2', name: 'Read', arguments: '{"path":"b.txt"}' },
+      { type: 'function_call_output', call_id: 'call_2', output: LONG_OUTPUT },
+    ],
+  };
+}
+
+function outputOf(
+  request: AzureResponsesRequestBody,
+  callId: string,
+): AzureFunctionCallOutput['output'] {
+  const item = request.input.find(
+    (entry): entry is AzureFunctionCallOutput =>
+      entry.type === 'function_call_output' && entry.call_id === callId,
+  );
+  assert.ok(item);
+  return item.output;
+}
+
+describe('fitToContextWindow', () => {
+  beforeEach(() => {
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('leaves requests within the window alone', () => {
+    const request = twoReads();
+    fitToContextWindow(request, countRequestTokens(request), true);
+    assert.deepEqual(request, twoReads());
+  });
+
+  it("fails with Anthropic's prompt too long error", () => {
+    const request = twoReads();
+    const tokens = countRequestTokens(request);
+    assert.throws(
+      () => fitToContextWindow(request, tokens - 1),
+      (error) =>
+        error instanceof InvalidRequestError &&
+        error.message === `prompt is too long: ${tokens} tokens > ${tokens - 1} maximum`,
+    );
+    assert.deepEqual(request, twoReads());
+  });
+
+  it('truncates old tool results but keeps the current step', () => {
+    const request = twoReads();
+    const limit = countRequestTokens(request) - 100;
+    fitToContextWindow(request, limit, true);
+
+    const truncated = String(outputOf(request, 'call_1'));
+    assert.ok(truncated.startsWith(`${LONG_OUTPUT.slice(0, 200)}…\n`));
+    assert.match(truncated, /\[Tool result truncated by the proxy .*; \d+ tokens omitted\]$/);
+    assert.equal(outputOf(request, 'call_2'), LONG_OUTPUT);
+    assert.ok(countRequestTokens(request) <= limit);
+  });
+
+  it('still fails when truncating is not enough', () => {
+    const request = twoReads();
+    assert.throws(() => fitToContextWindow(request, 100, true), /prompt is too long/);
+  });
+});
+
+describe('context window configuration', () => {
+  it('prefers configured windows over the defaults', () => {
+    const configured = parseContextWindows({ 'gpt-5-mini*': 64_000 });
+    assert.equal(resolveContextWindow('gpt-5-mini-eu', configured), 64_000);
+    assert.equal(resolveContextWindow('gpt-5', configured), 272_000);
+    assert.equal(resolveContextWindow('my-llama', configured), undefined);
+  });
+
+  it('rejects malformed tables', () => {
+    assert.deepEqual(parseContextWindows(undefined), []);
+    assert.throws(() => parseContextWindows([]), /context_windows must be a table/);
+    assert.throws(
+      () => parseContextWindows({ 'gpt-5': 0 }),
+      /context_windows\.gpt-5 must be a positive integer/,
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createConversationStore } from '../src/conversations';
+import {
+  AnthropicMessage,
+  AnthropicResponse,
+  anthropicToAzureRequest,
+  azureUsageToAnthropic,
+  AzureResponsesRequestBody,
+} from '../src/converters';
+
+function request(messages: AnthropicMessage[]): AzureResponsesRequestBody {
+  return anthropicToAzureRequest({ model: 'gpt-5', max_tokens: 100, messages }, 'gpt-5');
+}
+
+function reply(text: string): AnthropicResponse {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'gpt-5',
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: azureUsageToAnthropic(undefined),
+  };
+}
+
+const firstTurn: AnthropicMessage[] = [{ role: 'user', content: 'Hi' }];
+const secondTurn: AnthropicMessage[] = [
+  ...firstTurn,
+  { role: 'assistant', content: 'Hello' },
+  { role: 'user', content: 'What next?' },
+];
+
+describe('createConversationStore', () => {
+  it('continues a stored response with only the new items', () => {
+    const store = createConversationStore();
+    assert.equal(store.chain('azure/gpt-5', request(firstTurn)), undefined);
+    store.remember('azure/gpt-5', request(firstTurn), 'resp_1', reply('Hello'));
+
+    const chained = store.chain('azure/gpt-5', request(secondTurn));
+    assert.equal(chained?.previous_response_id, 'resp_1');
+    assert.equal(chained?.store, true);
+    assert.deepEqual(chained?.input, request([{ role: 'user', content: 'What next?' }]).input);
+  });
+
+  it('keeps backends and edited histories apart', () => {
+    const store = createConversationStore();
+    store.remember('azure/gpt-5', request(firstTurn), 'resp_1', reply('Hello'));
+
+    assert.equal(store.chain('backup/gpt-5', request(secondTurn)), undefined);
+    const edited: AnthropicMessage[] = [
+      ...firstTurn,
+      { role: 'assistant', content: 'Hello there' },
+      { role: 'user', content: 'What next?' },
+    ];
+    assert.equal(store.chain('azure/gpt-5', request(edited)), undefined);
+  });
+
+  it('forgets expired responses', () => {
+    const store = createConversationStore();
+    store.remember('azure/gpt-5', request(firstTurn), 'resp_1', reply('Hello'));
+    store.forget('resp_1');
+    assert.equal(store.chain('azure/gpt-5', request(secondTurn)), undefined);
+  });
+
+  it('evicts the least recently used conversation', () => {
+    const store = createConversationStore(2);
+    const remember = (name: string) =>
+      store.remember(
+        'azure/gpt-5',
+        request([{ role: 'user', content: name }]),
+        `resp_${name}`,
+        reply('Hello'),
+      );
+    const continued = (name: string) =>
+      store.chain(
+        'azure/gpt-5',
+        request([
+          { role: 'user', content: name },
+          { role: 'assistant', content: 'Hello' },
+          { role: 'user', content: 'What next?' },
+        ]),
+      )?.previous_response_id;
+
+    remember('a');
+    remember('b');
+    // Continuing "a" makes "b" the oldest, so "c" pushes out "b".
+    assert.equal(continued('a'), 'resp_a');
+    remember('c');
+
+    assert.equal(continued('b'), undefined);
+    assert.equal(continued('a'), 'resp_a');
+    assert.equal(continued('c'), 'resp_c');
+  });
+});
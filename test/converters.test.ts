@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AnthropicContentBlock,
+  AnthropicRequest,
+  anthropicToAzureRequest,
+  azureToAnthropicResponse,
+  AzureReasoningItem,
+} from '../src/converters';
+
+/**
+ * The reasoning items Azure receives when the client sends `content` back as the assistant turn.
+ */
+function replay(content: AnthropicContentBlock[]): unknown[] {
+  const body: AnthropicRequest = {
+    model: 'gpt-5',
+    max_tokens: 100,
+    messages: [
+      { role: 'user', content: 'Plan the change' },
+      { role: 'assistant', content },
+      { role: 'user', content: 'Go on' },
+    ],
+  };
+  const request = anthropicToAzureRequest(body, 'gpt-5');
+  return request.input.filter((item) => item.type === 'reasoning');
+}
+
+describe('thinking signatures', () => {
+  const reasoning: AzureReasoningItem = {
+    type: 'reasoning',
+    id: 'rs_1',
+    summary: [
+      { type: 'summary_text', text: 'First step.' },
+      { type: 'summary_text', text: 'Second step.' },
+    ],
+    encrypted_content: 'opaque-ciphertext',
+  };
+
+  it('round-trips a reasoning item through a thinking block', () => {
+    const response = azureToAnthropicResponse(
+      {
+        id: 'resp_1',
+        output: [
+          reasoning,
+          {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Done.' }],
+          },
+        ],
+      },
+      'claude-test',
+    );
+    const [thinking] = response.content;
+    assert.equal(thinking.type, 'thinking');
+    assert.equal(thinking.type === 'thinking' && thinking.thinking, 'First step.\n\nSecond step.');
+
+    assert.deepEqual(replay(response.content), [
+      {
+        type: 'reasoning',
+        summary: [{ type: 'summary_text', text: 'First step.\n\nSecond step.' }],
+        encrypted_content: 'opaque-ciphertext',
+      },
+    ]);
+  });
+
+  it('round-trips reasoning without a summary through redacted_thinking', () => {
+    const response = azureToAnthropicResponse(
+      { id: 'resp_1', output: [{ ...reasoning, summary: [] }] },
+      'claude-test',
+    );
+    const [block] = response.content;
+    assert.equal(block.type, 'redacted_thinking');
+    assert.deepEqual(replay([block]), [
+      { type: 'reasoning', summary: [], encrypted_content: 'opaque-ciphertext' },
+    ]);
+  });
+
+  it('refers to stored reasoning by id when there is no encrypted content', () => {
+    const response = azureToAnthropicResponse(
+      { id: 'resp_1', output: [{ ...reasoning, encrypted_content: null }] },
+      'claude-test',
+    );
+    assert.deepEqual(replay(response.content), [
+      {
+        type: 'reasoning',
+        summary: [{ type: 'summary_text', text: 'First step.\n\nSecond step.' }],
+        id: 'rs_1',
+      },
+    ]);
+  });
+
+  it('drops thinking signed by another backend', () => {
+    assert.deepEqual(
+      replay([
+        { type: 'thinking', thinking: 'Anthropic thinking', signature: 'EqQBCkYIBxgC' },
+        { type: 'text', text: 'Answer' },
+      ]),
+      [],
+    );
+  });
+});
+
+describe('documents', () => {
+  const filename = (source: Record<string, unknown>, title?: string) => {
+    const block = { type: 'document', source, title } as AnthropicContentBlock;
+    const request = anthropicToAzureRequest(
+      { model: 'gpt-5', max_tokens: 100, messages: [{ role: 'user', content: [block] }] },
+      'gpt-5',
+    );
+    const message = request.input[0] as { content: Array<{ filename?: string }> };
+    return message.content.find((part) => part.filename)?.filename;
+  };
+
+  it('names untitled files after their media type', () => {
+    const base64 = (mediaType: string) => ({ type: 'base64', media_type: mediaType, data: 'AAAA' });
+    assert.equal(filename(base64('application/pdf')), 'document.pdf');
+    assert.equal(
+      filename(base64('application/vnd.openxmlformats-officedocument.wordprocessingml.document')),
+      'document.docx',
+    );
+    assert.equal(filename(base64('application/json')), 'document.json');
+  });
+
+  it('adds the extension to a title that lacks it', () => {
+    const source = { type: 'base64', media_type: 'application/vnd.ms-excel', data: 'AAAA' };
+    assert.equal(filename(source, 'Q3 numbers'), 'Q3 numbers.xls');
+    assert.equal(filename(source, 'report.xls'), 'report.xls');
+  });
+});
@@ -0,0 +1,207 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { createProxyMetrics, routeLabel } from '../src/metrics';
+import { startServer } from '../src/server';
+
+function seriesLines(rendered: string, name: string): string[] {
+  return rendered.split('\n').filter((line) => line.startsWith(name));
+}
+
+describe('createProxyMetrics', () => {
+  it('renders counters with help, type and sorted-label series', () => {
+    const metrics = createProxyMetrics('test');
+    metrics.requests.inc({ route: 'claude-*', status: '200' });
+    metrics.requests.inc({ status: '200', route: 'claude-*' });
+    metrics.requests.inc({ route: 'default', status: '429' });
+    const rendered = metrics.render();
+
+    assert.match(rendered, /^# HELP test_requests_total .+$/m);
+    assert.match(rendered, /^# TYPE test_requests_total counter$/m);
+    assert.deepEqual(seriesLines(rendered, 'test_requests_total{'), [
+      'test_requests_total{route="claude-*",status="200"} 2',
+      'test_requests_total{route="default",status="429"} 1',
+    ]);
+    assert.ok(rendered.endsWith('\n'));
+  });
+
+  it('renders histograms with cumulative buckets', () => {
+    const metrics = createProxyMetrics('test');
+    metrics.upstreamDuration.observe({ backend: 'azure/gpt-5' }, 0.3);
+    metrics.upstreamDuration.observe({ backend: 'azure/gpt-5' }, 7);
+    const lines = seriesLines(metrics.render(), 'test_upstream_duration_seconds_');
+    const value = (series: string) =>
+      lines
+        .find((line) => line.startsWith(`test_upstream_duration_seconds_${series} `))
+        ?.split(' ')[1];
+
+    assert.equal(value('bucket{backend="azure/gpt-5",le="0.25"}'), '0');
+    assert.equal(value('bucket{backend="azure/gpt-5",le="0.5"}'), '1');
+    assert.equal(value('bucket{backend="azure/gpt-5",le="10"}'), '2');
+    assert.equal(value('bucket{backend="azure/gpt-5",le="+Inf"}'), '2');
+    assert.equal(value('sum{backend="azure/gpt-5"}'), '7.3');
+    assert.equal(value('count{backend="azure/gpt-5"}'), '2');
+  });
+
+  it('exports the active stream gauge from the start and escapes label values', () => {
+    const metrics = createProxyMetrics('test');
+    assert.deepEqual(seriesLines(metrics.render(), 'test_active_streams '), [
+      'test_active_streams 0',
+    ]);
+    metrics.tokens.inc({ route: 'say "hi"\\now', type: 'input' }, 5);
+    assert.deepEqual(seriesLines(metrics.render(), 'test_tokens_total{'), [
+      'test_tokens_total{route="say \\"hi\\"\\\\now",type="input"} 5',
+    ]);
+  });
+
+  it('labels requests by route pattern, never by model name', () => {
+    assert.equal(routeLabel(undefined), 'none');
+    assert.equal(routeLabel({}), 'default');
+    assert.equal(routeLabel({ match: 'claude-haiku*' }), 'claude-haiku*');
+  });
+});
+
+function listening(server: http.Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.once('listening', () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function closeServer(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * A Responses API upstream that has forgotten every stored response and answers "run" with a
+ * tool call whose arguments miss a required property.
+ */
+function startFakeUpstream(): http.Server {
+  let responses = 0;
+  return http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      res.setHeader('content-type', 'application/json');
+      if (body.previous_response_id) {
+        res.statusCode = 400;
+        res.end(
+          JSON.stringify({ error: { code: 'previous_response_not_found', message: 'gone' } }),
+        );
+        return;
+      }
+      responses += 1;
+      const lastText = body.input.at(-1)?.content?.[0]?.text;
+      const output =
+        lastText === 'run'
+          ? [{ type: 'function_call', call_id: `call_${responses}`, name: 'Read', arguments: '{}' }]
+          : [
+              {
+                type: 'message',
+                role: 'assistant',
+                content: [{ type: 'output_text', text: 'hello' }],
+              },
+            ];
+      res.end(JSON.stringify({ id: `resp_${responses}`, output }));
+    });
+  });
+}
+
+describe('upstream retry counter', () => {
+  const previousEnv = {
+    HOME: process.env.HOME,
+    ANTHROPIC_AUTH_TOKEN: process.env.ANTHROPIC_AUTH_TOKEN,
+  };
+  let home: string;
+  let upstream: http.Server;
+  let proxy: http.Server;
+  let proxyUrl: string;
+
+  before(async () => {
+    upstream = startFakeUpstream();
+    const upstreamPort = listening(upstream);
+    upstream.listen(0, '127.0.0.1');
+
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-claude-'));
+    fs.mkdirSync(path.join(home, '.codex'));
+    fs.writeFileSync(
+      path.join(home, '.codex', 'config.toml'),
+      [
+        'model = "gpt-5"',
+        'model_provider = "azure"',
+        'stateful_responses = true',
+        '[model_providers.azure]',
+        `base_url = "http://127.0.0.1:${await upstreamPort}/openai"`,
+        'wire_api = "responses"',
+        "auth = 'none'",
+        '[usage]',
+        'log = false',
+      ].join('\n'),
+    );
+    process.env.HOME = home;
+    delete process.env.ANTHROPIC_AUTH_TOKEN;
+
+    proxy = startServer({ host: '127.0.0.1', port: 0 });
+    proxyUrl = `http://127.0.0.1:${await listening(proxy)}`;
+  });
+
+  after(async () => {
+    await closeServer(proxy);
+    await closeServer(upstream);
+    fs.rmSync(home, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  const send = async (messages: unknown[], extra: Record<string, unknown> = {}) => {
+    const response = await fetch(`${proxyUrl}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-test', max_tokens: 100, messages, ...extra }),
+    });
+    assert.equal(response.status, 200);
+    return response.json();
+  };
+
+  it('counts every upstream call after the first, whatever prompted it', async () => {
+    await send([{ role: 'user', content: 'hi' }]);
+    // Continues the stored response, which the upstream has lost: the full history is resent.
+    await send([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+      { role: 'user', content: 'again' },
+    ]);
+    // Invalid tool call arguments are sampled once more.
+    await send([{ role: 'user', content: 'run' }], {
+      tools: [
+        {
+          name: 'Read',
+          input_schema: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+      ],
+    });
+
+    const metrics = await (await fetch(`${proxyUrl}/metrics`)).text();
+    assert.match(metrics, /^openai_claude_upstream_retries_total\{backend="azure\/default"\} 2$/m);
+    assert.match(
+      metrics,
+      /^openai_claude_upstream_requests_total\{backend="azure\/default",status="200"\} 4$/m,
+    );
+  });
+});
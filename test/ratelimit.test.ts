@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RateLimitQueueTimeoutError } from '../src/errors';
+import {
+  createRateLimiter,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  parseRateLimitConfig,
+  RateLimiter,
+  RateLimitRequest,
+  requestPriority,
+} from '../src/ratelimit';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function limiterWith(limits: Record<string, unknown>, maxQueueMs = 120_000): RateLimiter {
+  return createRateLimiter(
+    parseRateLimitConfig({ max_queue_ms: maxQueueMs, deployments: { 'gpt-*': limits } }),
+  );
+}
+
+/**
+ * Queues a request and records its label in `served` once it is let through.
+ */
+function enqueue(
+  limiter: RateLimiter,
+  served: string[],
+  label: string,
+  request: Partial<RateLimitRequest> = {},
+): Promise<void> {
+  const acquired = limiter.acquire({
+    backend: 'azure/gpt-5',
+    deployment: 'gpt-5',
+    priority: 'interactive',
+    estimateTokens: () => 0,
+    signal: new AbortController().signal,
+    ...request,
+  });
+  return acquired.then(() => {
+    served.push(label);
+  });
+}
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  });
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('lets requests through at once when the deployment has no limits', async () => {
+    const served: string[] = [];
+    const limiter = createRateLimiter(DEFAULT_RATE_LIMIT_CONFIG);
+    await Promise.all([enqueue(limiter, served, 'a'), enqueue(limiter, served, 'b')]);
+    assert.deepEqual(served, ['a', 'b']);
+  });
+
+  it('serves interactive requests before background ones', async () => {
+    const served: string[] = [];
+    const limiter = limiterWith({ requests_per_minute: 2 });
+    void enqueue(limiter, served, 'first');
+    void enqueue(limiter, served, 'second');
+    void enqueue(limiter, served, 'haiku', { priority: 'background' });
+    void enqueue(limiter, served, 'sonnet');
+    await flush();
+    assert.deepEqual(served, ['first', 'second']);
+
+    // The bucket refills continuously: one request every 30 seconds.
+    mock.timers.tick(30_000);
+    await flush();
+    assert.deepEqual(served, ['first', 'second', 'sonnet']);
+    mock.timers.tick(30_000);
+    await flush();
+    assert.deepEqual(served, ['first', 'second', 'sonnet', 'haiku']);
+  });
+
+  it('takes turns between clients', async () => {
+    const served: string[] = [];
+    const limiter = limiterWith({ requests_per_minute: 60 });
+    for (let index = 0; index < 60; index += 1) {
+      void enqueue(limiter, served, 'warmup', { client: 'alice' });
+    }
+    void enqueue(limiter, served, 'alice 1', { client: 'alice' });
+    void enqueue(limiter, served, 'alice 2', { client: 'alice' });
+    void enqueue(limiter, served, 'bob 1', { client: 'bob' });
+    await flush();
+    assert.equal(served.length, 60);
+
+    mock.timers.tick(3_000);
+    await flush();
+    assert.deepEqual(served.slice(60), ['bob 1', 'alice 1', 'alice 2']);
+  });
+
+  it('waits for enough tokens for the request', async () => {
+    const served: string[] = [];
+    const limiter = limiterWith({ tokens_per_minute: 1_000 });
+    void enqueue(limiter, served, 'a', { estimateTokens: () => 800 });
+    void enqueue(limiter, served, 'b', { estimateTokens: () => 800 });
+    await flush();
+    assert.deepEqual(served, ['a']);
+
+    // 600 more tokens take 36 seconds to come back.
+    mock.timers.tick(35_000);
+    await flush();
+    assert.deepEqual(served, ['a']);
+    mock.timers.tick(1_000);
+    await flush();
+    assert.deepEqual(served, ['a', 'b']);
+  });
+
+  it('rejects requests that wait longer than max_queue_ms', async () => {
+    const served: string[] = [];
+    const limiter = limiterWith({ requests_per_minute: 1 }, 1_000);
+    await enqueue(limiter, served, 'a');
+    const queued = enqueue(limiter, served, 'b');
+    mock.timers.tick(1_000);
+    await assert.rejects(queued, RateLimitQueueTimeoutError);
+  });
+
+  it('rejects with the abort reason when the client goes away', async () => {
+    const served: string[] = [];
+    const limiter = limiterWith({ requests_per_minute: 1 });
+    await enqueue(limiter, served, 'a');
+    const controller = new AbortController();
+    const queued = enqueue(limiter, served, 'b', { signal: controller.signal });
+    controller.abort(new Error('client closed'));
+    await assert.rejects(queued, /client closed/);
+  });
+
+  it('learns limits from response headers', async () => {
+    const served: string[] = [];
+    const limiter = createRateLimiter(DEFAULT_RATE_LIMIT_CONFIG);
+    limiter.observe('azure/gpt-5', 'gpt-5', {
+      'x-ratelimit-limit-requests': '120',
+      'x-ratelimit-remaining-requests': '0',
+    });
+    void enqueue(limiter, served, 'a');
+    await flush();
+    assert.deepEqual(served, []);
+    mock.timers.tick(500);
+    await flush();
+    assert.deepEqual(served, ['a']);
+  });
+});
+
+describe('parseRateLimitConfig', () => {
+  it('parses deployment limits and keeps defaults', () => {
+    const config = parseRateLimitConfig({
+      deployments: { 'gpt-5*': { tokens_per_minute: 150_000, requests_per_minute: 900 } },
+    });
+    assert.deepEqual(config.deployments, [
+      { match: 'gpt-5*', tokensPerMinute: 150_000, requestsPerMinute: 900 },
+    ]);
+    assert.equal(config.maxQueueMs, 120_000);
+    assert.equal(requestPriority('claude-haiku-4-5', config), 'background');
+    assert.equal(requestPriority('claude-sonnet-4-5', config), 'interactive');
+  });
+
+  it('rejects invalid limits', () => {
+    assert.throws(
+      () => parseRateLimitConfig({ deployments: { gpt: { tokens_per_minute: 0 } } }),
+      /rate_limits\.deployments\.gpt\.tokens_per_minute must be a positive number/,
+    );
+    assert.throws(() => parseRateLimitConfig({ background_models: 'haiku' }), /background_models/);
+  });
+});
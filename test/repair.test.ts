@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { repairJson } from '../src/repair';
+
+function parsesTo(raw: string, expected: unknown) {
+  assert.deepEqual(JSON.parse(repairJson(raw)), expected);
+}
+
+function staysInvalid(raw: string) {
+  assert.throws(() => JSON.parse(repairJson(raw)), SyntaxError, `repaired ${raw} into valid JSON`);
+}
+
+describe('repairJson', () => {
+  it('leaves valid JSON alone', () => {
+    assert.equal(repairJson('{"a": [1, 2], "b": "x"}'), '{"a": [1, 2], "b": "x"}');
+  });
+
+  it('strips code fences and prose around the object', () => {
+    parsesTo('```json\n{"a": 1}\n```', { a: 1 });
+    parsesTo('Here are the arguments: {"a": 1}', { a: 1 });
+  });
+
+  it('drops trailing commas', () => {
+    parsesTo('{"a": [1, 2,], "b": 3,}', { a: [1, 2], b: 3 });
+  });
+
+  it('escapes raw control characters inside strings', () => {
+    parsesTo('{"content": "line 1\nline 2\tend"}', { content: 'line 1\nline 2\tend' });
+  });
+
+  it('keeps only the first complete value', () => {
+    parsesTo('{"a": 1}{"a": 1}', { a: 1 });
+    parsesTo('{"a": 1} I hope this helps', { a: 1 });
+  });
+
+  it('closes brackets missing after a complete value', () => {
+    parsesTo('{"a": "x"', { a: 'x' });
+    parsesTo('{"a": {"b": [1, "two"', { a: { b: [1, 'two'] } });
+    parsesTo('{"a": true', { a: true });
+    parsesTo('{"a": [null', { a: [null] });
+    parsesTo('{"a": {"b": 1}', { a: { b: 1 } });
+  });
+
+  it('does not close a string that was cut off', () => {
+    staysInvalid('{"content": "partial file cont');
+    staysInvalid('{"content": "ends with an escape \\');
+  });
+
+  it('does not guess values that never arrived', () => {
+    staysInvalid('{"a": "x", "b":');
+    staysInvalid('{"a": "x", "b"');
+    staysInvalid('{"a": "x",');
+    staysInvalid('{"a": tru');
+    // The number could have had more digits.
+    staysInvalid('{"limit": 12');
+  });
+});
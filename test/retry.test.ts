@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AxiosError, AxiosResponse } from 'axios';
+import type { ProviderConfig } from '../src/config';
+import { RateLimitQueueTimeoutError } from '../src/errors';
+import { parseRetryPolicy, sendWithFailover, UpstreamBackend } from '../src/retry';
+
+function backend(id: string): UpstreamBackend {
+  return { provider: { id } as ProviderConfig, deployment: 'gpt' };
+}
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const response = { status, headers, data: null, statusText: '', config: {} } as AxiosResponse;
+  return new AxiosError(`status ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+const quickPolicy = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 5 };
+
+describe('sendWithFailover', () => {
+  it('retries retryable statuses on the same backend', async () => {
+    const calls: string[] = [];
+    const { result, backend: served } = await sendWithFailover(
+      [backend('a')],
+      quickPolicy,
+      async (candidate) => {
+        calls.push(candidate.provider.id);
+        if (calls.length < 3) {
+          throw httpError(503);
+        }
+        return 'ok';
+      },
+    );
+    assert.equal(result, 'ok');
+    assert.equal(served.provider.id, 'a');
+    assert.deepEqual(calls, ['a', 'a', 'a']);
+  });
+
+  it('fails over on backend-specific errors without retrying', async () => {
+    const calls: string[] = [];
+    const { backend: served } = await sendWithFailover(
+      [backend('a'), backend('b')],
+      quickPolicy,
+      async (candidate) => {
+        calls.push(candidate.provider.id);
+        if (candidate.provider.id === 'a') {
+          throw httpError(404);
+        }
+        return 'ok';
+      },
+    );
+    assert.equal(served.provider.id, 'b');
+    assert.deepEqual(calls, ['a', 'b']);
+  });
+
+  it('fails over when the rate limit queue times out', async () => {
+    const calls: string[] = [];
+    await sendWithFailover([backend('a'), backend('b')], quickPolicy, async (candidate) => {
+      calls.push(candidate.provider.id);
+      if (candidate.provider.id === 'a') {
+        throw new RateLimitQueueTimeoutError('a/gpt', 10);
+      }
+      return 'ok';
+    });
+    assert.deepEqual(calls, ['a', 'b']);
+  });
+
+  it('rethrows fatal errors immediately', async () => {
+    const error = httpError(400);
+    let calls = 0;
+    await assert.rejects(
+      sendWithFailover([backend('a'), backend('b')], quickPolicy, async () => {
+        calls += 1;
+        throw error;
+      }),
+      (thrown) => thrown === error,
+    );
+    assert.equal(calls, 1);
+  });
+
+  it('throws the last failure once every attempt is used up', async () => {
+    let calls = 0;
+    await assert.rejects(
+      sendWithFailover([backend('a')], quickPolicy, async () => {
+        calls += 1;
+        throw httpError(500);
+      }),
+      (thrown) => thrown instanceof AxiosError && thrown.response?.status === 500,
+    );
+    assert.equal(calls, quickPolicy.maxAttempts);
+  });
+
+  it('fails over instead of waiting longer than the policy allows', async () => {
+    const calls: string[] = [];
+    await sendWithFailover([backend('a'), backend('b')], quickPolicy, async (candidate) => {
+      calls.push(candidate.provider.id);
+      if (candidate.provider.id === 'a') {
+        throw httpError(429, { 'retry-after': '60' });
+      }
+      return 'ok';
+    });
+    assert.deepEqual(calls, ['a', 'b']);
+  });
+
+  it('stops backing off when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(
+      sendWithFailover(
+        [backend('a')],
+        { maxAttempts: 3, initialDelayMs: 10_000, maxDelayMs: 10_000 },
+        async () => {
+          throw httpError(503, { 'retry-after-ms': '10000' });
+        },
+        controller.signal,
+      ),
+      (thrown) => thrown instanceof AxiosError && thrown.response?.status === 503,
+    );
+    assert.ok(Date.now() - startedAt < 5_000);
+  });
+});
+
+describe('parseRetryPolicy', () => {
+  it('fills in defaults and validates fields', () => {
+    assert.deepEqual(parseRetryPolicy({ max_attempts: 5 }), {
+      maxAttempts: 5,
+      initialDelayMs: 500,
+      maxDelayMs: 20_000,
+    });
+    assert.throws(() => parseRetryPolicy({ max_attempts: 0 }), /retry.max_attempts/);
+  });
+});
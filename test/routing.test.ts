@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ProviderConfig } from '../src/config';
+import { modelMatches, parseModelRoutes, resolveModelRoute } from '../src/routing';
+import { DEFAULT_UPSTREAM_TIMEOUTS } from '../src/timeouts';
+
+function provider(id: string): ProviderConfig {
+  return {
+    id,
+    name: id,
+    baseUrl: `https://${id}.example.com/v1`,
+    envKey: `${id.toUpperCase()}_KEY`,
+    wireApi: 'responses',
+    apiKey: 'key',
+    authStyle: 'bearer',
+    httpHeaders: {},
+    queryParams: {},
+  };
+}
+
+const azure = provider('azure');
+const backup = provider('backup');
+const providers = { azure, backup, keyless: { ...provider('keyless'), apiKey: undefined } };
+const defaults = { provider: azure, model: 'gpt-5', timeouts: DEFAULT_UPSTREAM_TIMEOUTS };
+
+describe('modelMatches', () => {
+  it('matches globs against the whole name, ignoring case', () => {
+    assert.ok(modelMatches('claude-*haiku*', 'claude-3-5-haiku-20241022'));
+    assert.ok(modelMatches('claude-?-opus', 'Claude-4-Opus'));
+    assert.ok(!modelMatches('claude-?-opus', 'claude-45-opus'));
+    assert.ok(!modelMatches('haiku', 'claude-haiku'));
+  });
+
+  it('treats regular expression characters literally', () => {
+    assert.ok(modelMatches('gpt-4.1', 'gpt-4.1'));
+    assert.ok(!modelMatches('gpt-4.1', 'gpt-4x1'));
+    assert.ok(modelMatches('model(1)+', 'model(1)+'));
+  });
+});
+
+describe('resolveModelRoute', () => {
+  const routes = parseModelRoutes(
+    [
+      {
+        match: 'claude-*haiku*',
+        deployment: 'gpt-5-mini',
+        reasoning_effort: 'low',
+        fallbacks: [{ provider: 'backup' }],
+      },
+      { match: 'claude-*', provider: 'backup', deployment: 'gpt-5' },
+    ],
+    providers,
+    azure,
+  );
+
+  it('uses the first matching route', () => {
+    const route = resolveModelRoute(routes, 'claude-haiku-4-5', defaults);
+    assert.equal(route.match, 'claude-*haiku*');
+    assert.equal(route.deployment, 'gpt-5-mini');
+    assert.equal(route.reasoningEffort, 'low');
+    assert.deepEqual(
+      route.backends.map((backend) => [backend.provider.id, backend.deployment]),
+      [
+        ['azure', 'gpt-5-mini'],
+        ['backup', 'gpt-5-mini'],
+      ],
+    );
+    assert.equal(resolveModelRoute(routes, 'claude-opus-4', defaults).provider.id, 'backup');
+  });
+
+  it('forwards unmatched names to the default provider', () => {
+    const route = resolveModelRoute(routes, 'gpt-4.1', defaults);
+    assert.equal(route.match, undefined);
+    assert.equal(route.provider.id, 'azure');
+    assert.equal(route.deployment, 'gpt-4.1');
+    assert.equal(resolveModelRoute([], undefined, defaults).deployment, 'gpt-5');
+  });
+});
+
+describe('parseModelRoutes', () => {
+  it('rejects malformed routes', () => {
+    assert.throws(() => parseModelRoutes({}, providers, azure), /routes must be an array/);
+    assert.throws(() => parseModelRoutes([{}], providers, azure), /routes\[0\]\.match/);
+    assert.throws(() => parseModelRoutes(['*'], providers, azure), /routes\[0\] must be a table/);
+    assert.throws(
+      () => parseModelRoutes([{ match: '*', provider: 'nope' }], providers, azure),
+      /not a configured model provider/,
+    );
+    assert.throws(
+      () => parseModelRoutes([{ match: '*', provider: 'keyless' }], providers, azure),
+      /API key/,
+    );
+    assert.throws(
+      () => parseModelRoutes([{ match: '*', fallbacks: ['backup'] }], providers, azure),
+      /routes\[0\]\.fallbacks\[0\] must be a table/,
+    );
+  });
+});
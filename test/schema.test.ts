@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { anthropicToAzureRequest, createToolInputDecoder } from '../src/converters';
+import { dropOptionalNulls, sanitizeToolSchema, validateAgainstSchema } from '../src/schema';
+
+describe('sanitizeToolSchema', () => {
+  it('inlines local refs and strips unsupported keywords', () => {
+    const { schema, diagnostics } = sanitizeToolSchema({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: { path: { $ref: '#/$defs/path' } },
+      $defs: { path: { type: 'string', format: 'uri' } },
+    });
+    assert.deepEqual(schema, {
+      type: 'object',
+      properties: { path: { type: 'string', description: 'Format: uri.' } },
+    });
+    assert.ok(diagnostics.includes("(root): stripped '$schema'"));
+  });
+
+  it('leaves recursive refs unconstrained', () => {
+    const { schema, diagnostics } = sanitizeToolSchema({
+      type: 'object',
+      properties: { tree: { $ref: '#/$defs/node' } },
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } },
+        },
+      },
+    });
+    // Compared as sent upstream, where undefined fields disappear.
+    const tree = JSON.parse(JSON.stringify(schema)).properties.tree;
+    assert.deepEqual(tree.properties, { children: { type: 'array', items: {} } });
+    assert.ok(diagnostics.some((note) => note.includes("recursive $ref '#/$defs/node'")));
+  });
+
+  it('flattens a root anyOf of objects', () => {
+    const { schema } = sanitizeToolSchema({
+      anyOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'string' } }, required: ['b'] },
+      ],
+    });
+    assert.deepEqual(schema, {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string' } },
+    });
+  });
+
+  it('treats an untyped root without other constraints as an object', () => {
+    assert.deepEqual(sanitizeToolSchema({}).schema, { type: 'object', properties: {} });
+    assert.deepEqual(sanitizeToolSchema({ description: 'No input' }).schema, {
+      type: 'object',
+      description: 'No input',
+      properties: {},
+    });
+  });
+
+  it('wraps non-object roots in a value property', () => {
+    const { schema, wrapped } = sanitizeToolSchema({ type: 'string' });
+    assert.equal(wrapped, true);
+    assert.deepEqual(schema, {
+      type: 'object',
+      properties: { value: { type: 'string' } },
+      required: ['value'],
+    });
+    assert.equal(sanitizeToolSchema({ anyOf: [{ type: 'string' }, { type: 'number' }] }).wrapped, true);
+    assert.equal(sanitizeToolSchema({ type: 'object' }).wrapped, false);
+  });
+
+  it('keeps boolean subschemas', () => {
+    const { schema, diagnostics } = sanitizeToolSchema({
+      type: 'object',
+      properties: { any: true, never: false, name: { type: 'string', not: false } },
+      additionalProperties: false,
+    });
+    assert.deepEqual(schema, {
+      type: 'object',
+      properties: { any: true, never: false, name: { type: 'string', not: false } },
+      additionalProperties: false,
+    });
+    assert.deepEqual(diagnostics, []);
+  });
+
+  it('makes optional properties nullable in strict mode', () => {
+    const { schema, strict } = sanitizeToolSchema(
+      {
+        type: 'object',
+        properties: { a: { type: 'string', minLength: 1 }, b: { type: 'integer' } },
+        required: ['a'],
+      },
+      { strict: true },
+    );
+    assert.equal(strict, true);
+    assert.deepEqual(schema, {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: ['integer', 'null'] } },
+      required: ['a', 'b'],
+      additionalProperties: false,
+    });
+  });
+
+  it('falls back to the relaxed schema when strict mode is impossible', () => {
+    const { schema, strict, diagnostics } = sanitizeToolSchema(
+      {
+        type: 'object',
+        properties: { env: { type: 'object', additionalProperties: { type: 'string' } } },
+      },
+      { strict: true },
+    );
+    assert.equal(strict, false);
+    assert.deepEqual(schema.properties, {
+      env: { type: 'object', additionalProperties: { type: 'string' } },
+    });
+    assert.ok(diagnostics.some((note) => note.startsWith('strict mode disabled: env:')));
+  });
+});
+
+describe('tool input validation', () => {
+  const schema = {
+    type: 'object',
+    properties: { path: { type: 'string' }, limit: { type: 'integer' } },
+    required: ['path'],
+  };
+
+  it('drops null optional properties', () => {
+    assert.deepEqual(dropOptionalNulls({ path: 'a', limit: null }, schema), { path: 'a' });
+  });
+
+  it('reports type errors and missing properties', () => {
+    assert.deepEqual(validateAgainstSchema({ path: 'a' }, schema), []);
+    assert.equal(validateAgainstSchema({ limit: 'x' }, schema).length, 2);
+  });
+
+  it('unwraps and rewraps the input of tools with a non-object root', () => {
+    const body = {
+      model: 'gpt',
+      max_tokens: 100,
+      messages: [
+        { role: 'user' as const, content: 'hi' },
+        {
+          role: 'assistant' as const,
+          content: [{ type: 'tool_use' as const, id: 'call_1', name: 'echo', input: 'hello' }],
+        },
+      ],
+      tools: [{ name: 'echo', input_schema: { type: 'string' } }],
+    };
+    const decode = createToolInputDecoder(body);
+    assert.deepEqual(decode('echo', '{"value":"hi"}'), { input: 'hi' });
+    assert.ok('error' in decode('echo', '{"value":1}'));
+
+    const request = anthropicToAzureRequest(body, 'gpt');
+    const call = request.input.find((item) => item.type === 'function_call');
+    assert.equal(call?.arguments, '{"value":"hello"}');
+  });
+});
@@ -0,0 +1,311 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Readable } from 'stream';
+import type { Response } from 'express';
+import { chatToAnthropicResponse } from '../src/chat';
+import {
+  AnthropicResponse,
+  applyStopSequences,
+  azureToAnthropicResponse,
+  azureUsageToAnthropic,
+} from '../src/converters';
+import {
+  AnthropicStreamOptions,
+  createAnthropicStreamEmitter,
+  pipeChatCompletionsStream,
+  pipeResponsesStream,
+} from '../src/streaming';
+
+interface StreamEvent {
+  type: string;
+  index?: number;
+  message?: Record<string, unknown>;
+  usage?: Record<string, unknown>;
+  content_block?: Record<string, unknown>;
+  delta?: Record<string, unknown>;
+}
+
+function fakeResponse(): { res: Response; events: () => StreamEvent[] } {
+  const written: string[] = [];
+  const res = {
+    headersSent: false,
+    writableEnded: false,
+    status: () => res,
+    setHeader: () => res,
+    write: (chunk: string) => written.push(chunk),
+    end: () => {
+      res.writableEnded = true;
+    },
+    once: () => res,
+  };
+  const events = () =>
+    written
+      .filter((chunk) => chunk.startsWith('data: '))
+      .map((chunk) => JSON.parse(chunk.slice('data: '.length)) as StreamEvent);
+  return { res: res as unknown as Response, events };
+}
+
+function sseStream(payloads: unknown[]): Readable {
+  return Readable.from(
+    [...payloads.map((payload) => JSON.stringify(payload)), '[DONE]'].map(
+      (data) => `data: ${data}\n\n`,
+    ),
+  );
+}
+
+/**
+ * Runs a pipe over the given upstream SSE payloads and returns the Anthropic events it wrote.
+ */
+async function runPipe(
+  pipe: typeof pipeResponsesStream,
+  payloads: unknown[],
+  options: AnthropicStreamOptions = {},
+): Promise<StreamEvent[]> {
+  const { res, events } = fakeResponse();
+  await pipe(sseStream(payloads), res, 'claude-test', options);
+  return events();
+}
+
+function blocks(events: StreamEvent[]): Array<Record<string, unknown>> {
+  return events
+    .filter((event) => event.type === 'content_block_start')
+    .map((event) => event.content_block ?? {});
+}
+
+function stopReason(events: StreamEvent[]): unknown {
+  return events.find((event) => event.type === 'message_delta')?.delta?.stop_reason;
+}
+
+function streamedText(events: StreamEvent[]): string {
+  return events
+    .filter((event) => event.delta?.type === 'text_delta')
+    .map((event) => event.delta?.text)
+    .join('');
+}
+
+const chatChunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+  id: 'chatcmpl-1',
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+describe('pipeChatCompletionsStream', () => {
+  it('keeps text that follows a tool call', async () => {
+    const events = await runPipe(pipeChatCompletionsStream, [
+      chatChunk({ content: 'Reading. ' }),
+      chatChunk({
+        tool_calls: [{ index: 0, id: 'call_1', function: { name: 'Read', arguments: '{}' } }],
+      }),
+      chatChunk({ content: 'Then more text.' }, 'tool_calls'),
+    ]);
+    assert.deepEqual(blocks(events).map((block) => block.type), ['text', 'tool_use', 'text']);
+    assert.equal(streamedText(events), 'Reading. Then more text.');
+  });
+});
+
+describe('unfinished tool calls', () => {
+  it('reports a Responses call cut off by the output limit instead of running it', async () => {
+    const events = await runPipe(pipeResponsesStream, [
+      { type: 'response.created', response: { id: 'resp_1' } },
+      {
+        type: 'response.output_item.added',
+        output_index: 0,
+        item: { type: 'function_call', call_id: 'call_1', name: 'Write' },
+      },
+      {
+        type: 'response.function_call_arguments.delta',
+        output_index: 0,
+        delta: '{"file_path": "a.txt", "content": "partial"}',
+      },
+      {
+        type: 'response.incomplete',
+        response: { id: 'resp_1', incomplete_details: { reason: 'max_output_tokens' } },
+      },
+    ]);
+    const [block] = blocks(events);
+    assert.equal(block.type, 'text');
+    assert.equal(blocks(events).length, 1);
+    assert.equal(stopReason(events), 'max_tokens');
+    const text = events.find((event) => event.type === 'content_block_delta')?.delta?.text;
+    assert.match(String(text), /Write was not run because the response ended before/);
+  });
+
+  it('reports the open chat call when the output limit hits', async () => {
+    const events = await runPipe(pipeChatCompletionsStream, [
+      chatChunk({
+        tool_calls: [{ index: 0, id: 'call_1', function: { name: 'Read', arguments: '{"a": 1}' } }],
+      }),
+      chatChunk({
+        tool_calls: [{ index: 1, id: 'call_2', function: { name: 'Write', arguments: '{"b"' } }],
+      }),
+      chatChunk({}, 'length'),
+    ]);
+    assert.deepEqual(blocks(events).map((block) => block.type), ['tool_use', 'text']);
+    assert.equal(stopReason(events), 'max_tokens');
+  });
+
+  it('keeps complete calls of an incomplete non-streaming response', () => {
+    const message = azureToAnthropicResponse(
+      {
+        status: 'incomplete',
+        incomplete_details: { reason: 'max_output_tokens' },
+        output: [
+          {
+            type: 'function_call',
+            call_id: 'call_1',
+            name: 'Read',
+            arguments: '{"a": 1}',
+            status: 'completed',
+          },
+          {
+            type: 'function_call',
+            call_id: 'call_2',
+            name: 'Write',
+            arguments: '{"b": 2}',
+            status: 'incomplete',
+          },
+        ],
+      },
+      'claude-test',
+    );
+    assert.deepEqual(message.content.map((block) => block.type), ['tool_use', 'text']);
+    assert.equal(message.stop_reason, 'max_tokens');
+  });
+
+  it('reports the last call of a chat response cut off by the output limit', () => {
+    const message = chatToAnthropicResponse(
+      {
+        choices: [
+          {
+            index: 0,
+            finish_reason: 'length',
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'Read', arguments: '{}' } },
+                { id: 'call_2', type: 'function', function: { name: 'Write', arguments: '{}' } },
+              ],
+            },
+          },
+        ],
+      },
+      'claude-test',
+    );
+    assert.deepEqual(message.content.map((block) => block.type), ['tool_use', 'text']);
+  });
+});
+
+describe('stop sequences', () => {
+  const message = (...texts: string[]): AnthropicResponse => ({
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-test',
+    content: texts.map((text) => ({ type: 'text', text })),
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 1, output_tokens: 1 },
+  });
+
+  it('cuts a response at the earliest stop sequence', () => {
+    const cut = applyStopSequences(message('first', 'say END or STOP here', 'dropped'), [
+      'STOP',
+      'END',
+    ]);
+    assert.deepEqual(cut.content, [
+      { type: 'text', text: 'first' },
+      { type: 'text', text: 'say ' },
+    ]);
+    assert.equal(cut.stop_reason, 'stop_sequence');
+    assert.equal(cut.stop_sequence, 'END');
+  });
+
+  it('leaves responses without a match alone', () => {
+    const original = message('nothing to see');
+    assert.equal(applyStopSequences(original, ['STOP']), original);
+    assert.equal(applyStopSequences(original, undefined), original);
+  });
+
+  it('stops a stream at a sequence split across deltas', async () => {
+    const events = await runPipe(
+      pipeChatCompletionsStream,
+      [
+        chatChunk({ content: 'Hello ST' }),
+        chatChunk({ content: 'OP world' }),
+        chatChunk({ content: ' never sent' }, 'stop'),
+      ],
+      { stopSequences: ['STOP'] },
+    );
+    assert.equal(streamedText(events), 'Hello ');
+    const messageDelta = events.find((event) => event.type === 'message_delta');
+    assert.deepEqual(messageDelta?.delta, { stop_reason: 'stop_sequence', stop_sequence: 'STOP' });
+  });
+
+  it('releases held-back text that turns out not to be a stop sequence', async () => {
+    const events = await runPipe(
+      pipeResponsesStream,
+      [
+        { type: 'response.created', response: { id: 'resp_1' } },
+        { type: 'response.output_text.delta', output_index: 0, delta: 'a S' },
+        { type: 'response.output_text.delta', output_index: 0, delta: 'TOP' },
+        { type: 'response.output_text.delta', output_index: 0, delta: 'S end' },
+        { type: 'response.completed', response: { id: 'resp_1' } },
+      ],
+      { stopSequences: ['STOPPED'] },
+    );
+    assert.equal(streamedText(events), 'a STOPS end');
+    assert.equal(stopReason(events), 'end_turn');
+  });
+});
+
+describe('stream usage', () => {
+  /**
+   * Streams the payloads the way the server does: message_start goes out first, announcing the
+   * locally counted input tokens.
+   */
+  async function streamWithEstimate(pipe: typeof pipeResponsesStream, payloads: unknown[]) {
+    const { res, events } = fakeResponse();
+    const emitter = createAnthropicStreamEmitter(res, {});
+    emitter.start(
+      { id: 'msg_1', model: 'claude-test' },
+      { ...azureUsageToAnthropic(undefined), input_tokens: 42 },
+    );
+    await pipe(sseStream(payloads), res, 'claude-test', { emitter });
+    const all = events();
+    return {
+      start: all.find((event) => event.type === 'message_start')?.message?.usage as
+        | Record<string, unknown>
+        | undefined,
+      final: all.find((event) => event.type === 'message_delta')?.usage,
+    };
+  }
+
+  it('reports the upstream input and cache counts in message_delta', async () => {
+    const { start, final } = await streamWithEstimate(pipeResponsesStream, [
+      { type: 'response.created', response: { id: 'resp_1' } },
+      {
+        type: 'response.completed',
+        response: {
+          id: 'resp_1',
+          status: 'completed',
+          output: [],
+          usage: { input_tokens: 50, input_tokens_details: { cached_tokens: 30 }, output_tokens: 5 },
+        },
+      },
+    ]);
+    assert.equal(start?.input_tokens, 42);
+    assert.deepEqual(final, {
+      input_tokens: 20,
+      output_tokens: 5,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 30,
+    });
+  });
+
+  it('repeats the estimate when the upstream reports no usage', async () => {
+    const { final } = await streamWithEstimate(pipeChatCompletionsStream, [
+      chatChunk({ content: 'Hi' }, 'stop'),
+    ]);
+    assert.equal(final?.input_tokens, 42);
+  });
+});
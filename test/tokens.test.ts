@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import type { AzureResponsesRequestBody } from '../src/converters';
+import { startServer } from '../src/server';
+import { countRequestTokens, encodingForModel } from '../src/tokens';
+
+function userMessage(text: string, model = 'gpt-5'): AzureResponsesRequestBody {
+  return {
+    model,
+    input: [{ type: 'message', role: 'user', content: [{ type: 'input_text', text }] }],
+  };
+}
+
+// A 1x1 PNG: its header is all the counter reads.
+const PNG_1X1 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('countRequestTokens', () => {
+  it('counts special token markers as plain text', () => {
+    const tokens = countRequestTokens(
+      userMessage('Stop at <|endoftext|> or <|im_start|>, like the tokenizer docs say.'),
+    );
+    assert.ok(tokens > countRequestTokens(userMessage('Stop at or, like the tokenizer docs say.')));
+  });
+
+  it('adds message framing to the text tokens', () => {
+    // "hello" is a single token; 3 for the message and 3 for reply priming.
+    assert.equal(countRequestTokens(userMessage('hello')), 7);
+  });
+
+  it('counts tool calls, results and definitions', () => {
+    const request: AzureResponsesRequestBody = {
+      model: 'gpt-5',
+      input: [
+        { type: 'function_call', call_id: 'call_1', name: 'Read', arguments: '{"path":"a"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: 'file contents' },
+      ],
+    };
+    const withoutTools = countRequestTokens(request);
+    assert.ok(withoutTools > 10);
+    const withTools = countRequestTokens({
+      ...request,
+      tools: [
+        {
+          type: 'function',
+          name: 'Read',
+          description: 'Reads a file',
+          parameters: { type: 'object', properties: { path: { type: 'string' } } },
+        },
+      ],
+    });
+    assert.ok(withTools > withoutTools + 20);
+  });
+
+  it('prices images by their size', () => {
+    const request = userMessage('');
+    request.input = [
+      {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_image', image_url: `data:image/png;base64,${PNG_1X1}` }],
+      },
+    ];
+    // One 512px tile plus the base cost, plus framing.
+    assert.equal(countRequestTokens(request), 85 + 170 + 6);
+  });
+
+  it('prices PDFs by their page count', () => {
+    const pdf = Buffer.from(
+      '%PDF-1.4\n<< /Type /Pages /Count 2 >>\n<< /Type /Page >>\n<< /Type /Page >>\n',
+    ).toString('base64');
+    const request = userMessage('');
+    request.input = [
+      {
+        type: 'message',
+        role: 'user',
+        content: [
+          {
+            type: 'input_file',
+            filename: 'a.pdf',
+            file_data: `data:application/pdf;base64,${pdf}`,
+          },
+        ],
+      },
+    ];
+    assert.equal(countRequestTokens(request), 2 * 1500 + 6);
+  });
+
+  it('counts reasoning summaries sent back as history', () => {
+    const request = userMessage('hello');
+    const withoutReasoning = countRequestTokens(request);
+    request.input.unshift({
+      type: 'reasoning',
+      summary: [{ type: 'summary_text', text: 'The user greets me, so I greet them back.' }],
+    });
+    assert.ok(countRequestTokens(request) > withoutReasoning + 5);
+  });
+});
+
+describe('encodingForModel', () => {
+  it('uses cl100k for GPT-4 and GPT-3.5 and o200k otherwise', () => {
+    assert.equal(encodingForModel('gpt-4'), 'cl100k_base');
+    assert.equal(encodingForModel('gpt-35-turbo'), 'cl100k_base');
+    assert.equal(encodingForModel('gpt-4o'), 'o200k_base');
+    assert.equal(encodingForModel('gpt-4.1-mini'), 'o200k_base');
+    assert.equal(encodingForModel('gpt-5'), 'o200k_base');
+  });
+});
+
+describe('POST /v1/messages/count_tokens', () => {
+  const previousEnv = {
+    HOME: process.env.HOME,
+    ANTHROPIC_AUTH_TOKEN: process.env.ANTHROPIC_AUTH_TOKEN,
+  };
+  let home: string;
+  let proxy: http.Server;
+  let proxyUrl: string;
+
+  before(async () => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-claude-'));
+    fs.mkdirSync(path.join(home, '.codex'));
+    // Nothing listens on the upstream port: counting must not call it.
+    fs.writeFileSync(
+      path.join(home, '.codex', 'config.toml'),
+      [
+        'model = "gpt-5"',
+        'model_provider = "azure"',
+        '[model_providers.azure]',
+        'base_url = "http://127.0.0.1:9/openai"',
+        'wire_api = "responses"',
+        "auth = 'none'",
+        '[usage]',
+        'log = false',
+      ].join('\n'),
+    );
+    process.env.HOME = home;
+    delete process.env.ANTHROPIC_AUTH_TOKEN;
+
+    proxy = startServer({ host: '127.0.0.1', port: 0 });
+    await new Promise<void>((resolve) => proxy.once('listening', () => resolve()));
+    proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    proxy.closeAllConnections();
+    await new Promise((resolve) => proxy.close(resolve));
+    fs.rmSync(home, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  const countTokens = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${proxyUrl}/v1/messages/count_tokens`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-test', ...body }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('counts prompts that mention special tokens', async () => {
+    const { status, body } = await countTokens({
+      system: 'Never print <|endoftext|>.',
+      messages: [{ role: 'user', content: 'What does <|im_start|> mean?' }],
+    });
+    assert.equal(status, 200);
+    assert.equal(typeof body.input_tokens, 'number');
+    assert.ok(body.input_tokens > 10);
+  });
+
+  it('rejects requests it cannot convert', async () => {
+    const { status, body } = await countTokens({ messages: 'hi' });
+    assert.equal(status, 400);
+    assert.equal(body.type, 'error');
+    assert.equal(body.error.type, 'invalid_request_error');
+  });
+});
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { AnthropicApiError } from '../src/errors';
+import {
+  createUsageLedger,
+  estimateCost,
+  parseUsageConfig,
+  readUsageRecords,
+  summarizeUsage,
+  UsageRecord,
+  usageTokens,
+} from '../src/usage';
+
+function usage(timestamp: string, fields: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    timestamp,
+    model: 'claude-sonnet-4',
+    deployment: 'gpt-5',
+    input_tokens: 1000,
+    cached_tokens: 0,
+    output_tokens: 100,
+    reasoning_tokens: 0,
+    latency_ms: 100,
+    status: 200,
+    ...fields,
+  };
+}
+
+describe('usage accounting', () => {
+  it('splits cached input from upstream usage', () => {
+    assert.deepEqual(
+      usageTokens({
+        input_tokens: 500,
+        input_tokens_details: { cached_tokens: 384 },
+        output_tokens: 20,
+        output_tokens_details: { reasoning_tokens: 12 },
+      }),
+      { input_tokens: 116, cached_tokens: 384, output_tokens: 20, reasoning_tokens: 12 },
+    );
+    assert.deepEqual(usageTokens({ prompt_tokens: 10, completion_tokens: 3 }), {
+      input_tokens: 10,
+      cached_tokens: 0,
+      output_tokens: 3,
+      reasoning_tokens: 0,
+    });
+  });
+
+  it('prices deployments with configured prices first', () => {
+    const { prices } = parseUsageConfig({
+      prices: { 'gpt-5-eu': { input: 2, output: 20 } },
+    });
+    const counts = {
+      input_tokens: 1_000_000,
+      cached_tokens: 1_000_000,
+      output_tokens: 1_000,
+      reasoning_tokens: 0,
+    };
+    // Cached input costs as much as uncached input unless priced separately.
+    assert.equal(estimateCost('gpt-5-eu', counts, prices), 4.02);
+    assert.equal(estimateCost('gpt-5', counts, prices), 1.385);
+    assert.equal(estimateCost('my-llama', counts, prices), undefined);
+  });
+
+  it('rejects malformed usage tables', () => {
+    assert.equal(parseUsageConfig(undefined).log, 'openai-claude-usage.jsonl');
+    assert.equal(parseUsageConfig({ log: false }).log, false);
+    assert.throws(() => parseUsageConfig({ log: '' }), /usage\.log must be a file path or false/);
+    assert.throws(
+      () => parseUsageConfig({ prices: { 'gpt-5': { output: 1 } } }),
+      /usage\.prices\.gpt-5\.input/,
+    );
+  });
+
+  it('summarizes records by group, with a total', () => {
+    const records = [
+      usage('2026-03-09T10:00:00.000Z', { client: 'alice' }),
+      usage('2026-03-10T10:00:00.000Z', { client: 'bob', status: 429, cost_usd: 0.5 }),
+      usage('2026-03-10T11:00:00.000Z', { client: 'alice', cost_usd: 0.25 }),
+    ];
+    const rows = summarizeUsage(records, 'client', { since: '2026-03-10' });
+    assert.deepEqual(
+      rows.map((row) => [row.key, row.requests, row.errors, row.input_tokens, row.cost_usd]),
+      [
+        ['alice', 1, 0, 1000, 0.25],
+        ['bob', 1, 1, 1000, 0.5],
+        ['total', 2, 1, 2000, 0.75],
+      ],
+    );
+  });
+});
+
+describe('createUsageLedger', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-claude-usage-'));
+    logPath = path.join(dir, 'usage.jsonl');
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-03-10T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const isBudgetError = (error: unknown) =>
+    error instanceof AnthropicApiError &&
+    error.status === 400 &&
+    /reached the proxy's daily budget/.test(error.message);
+
+  it('reads the spend of the current day back from the log', () => {
+    fs.writeFileSync(
+      logPath,
+      [
+        JSON.stringify(usage('2026-03-09T12:00:00.000Z', { cost_usd: 5 })),
+        JSON.stringify(usage('2026-03-10T08:00:00.000Z', { cost_usd: 1 })),
+        // A line cut short by a crash.
+        '{"timestamp":"2026-03-10T09:00',
+      ].join('\n'),
+    );
+    const config = parseUsageConfig({ log: logPath, daily_budget_usd: 1 });
+    assert.throws(() => createUsageLedger(config).checkBudget(), isBudgetError);
+    createUsageLedger({ ...config, dailyBudgetUsd: 2 }).checkBudget();
+  });
+
+  it('appends priced records and stops at the budget until the next day', async () => {
+    const ledger = createUsageLedger(parseUsageConfig({ log: logPath, daily_budget_usd: 1 }));
+    ledger.checkBudget();
+    const record = usage('2026-03-10T12:00:00.000Z', { input_tokens: 800_000 });
+    ledger.record(record);
+    assert.throws(() => ledger.checkBudget(), isBudgetError);
+
+    mock.timers.tick(12 * 60 * 60 * 1000);
+    ledger.checkBudget();
+
+    // Records are written asynchronously.
+    for (let attempt = 0; attempt < 50 && readUsageRecords(logPath).length === 0; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(readUsageRecords(logPath), [{ ...record, cost_usd: 1.001 }]);
+  });
+});